@@ -0,0 +1,101 @@
+/**
+ * API Authentication
+ *
+ * Transcripts, live streams and analytics are only served to callers allowed
+ * to see the room: with a LiveKit access token for that room (signed with
+ * LIVEKIT_API_SECRET, like the one a participant joins with) or ADMIN_TOKEN.
+ * Tokens are sent as `Authorization: Bearer <token>`, or as a `token` query
+ * parameter for EventSource and WebSocket clients, which can't set headers.
+ *
+ * Admin endpoints only accept ADMIN_TOKEN and are disabled without one.
+ */
+
+import crypto from 'crypto'
+import { Request, Response, NextFunction } from 'express'
+import { TokenVerifier } from 'livekit-server-sdk'
+import { createLogger } from './logger'
+
+const log = createLogger('ApiAuth')
+
+/**
+ * The token from an Authorization header, or the `token` query parameter of a URL
+ */
+export function readToken(authorization: string | undefined, url: string | undefined): string | null {
+  const bearer = /^Bearer\s+(.+)$/i.exec(authorization ?? '')
+  if (bearer) return bearer[1].trim()
+
+  const token = new URL(url || '/', 'http://localhost').searchParams.get('token')
+  return token || null
+}
+
+/**
+ * Whether a token is ADMIN_TOKEN (never true while it is unset)
+ */
+export function isAdminToken(token: string | null): boolean {
+  const adminToken = process.env.ADMIN_TOKEN
+  if (!adminToken || !token) return false
+
+  const expected = Buffer.from(adminToken)
+  const provided = Buffer.from(token)
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided)
+}
+
+/**
+ * Whether a token grants access to a room: ADMIN_TOKEN, or a valid LiveKit
+ * token whose video grant names the room and lets its holder join or administer it
+ */
+export async function canAccessRoom(roomId: string, token: string | null): Promise<boolean> {
+  if (!token) return false
+  if (isAdminToken(token)) return true
+
+  const apiKey = process.env.LIVEKIT_API_KEY
+  const apiSecret = process.env.LIVEKIT_API_SECRET
+  if (!apiKey || !apiSecret) return false
+
+  try {
+    const claims = await new TokenVerifier(apiKey, apiSecret).verify(token)
+    const grant = claims.video
+    return !!grant && grant.room === roomId && !!(grant.roomJoin || grant.roomAdmin)
+  } catch {
+    // Malformed, expired or signed with another secret
+    return false
+  }
+}
+
+/**
+ * Express middleware for routes with a :roomId the caller must have access to
+ */
+export function requireRoomAccess(req: Request, res: Response, next: NextFunction): void {
+  const { roomId } = req.params
+  const token = readToken(req.get('authorization'), req.originalUrl)
+
+  canAccessRoom(roomId, token)
+    .then(allowed => {
+      if (allowed) {
+        next()
+        return
+      }
+      log.warn('Rejected room request', { requestId: res.locals.requestId, roomId, path: req.path, ip: req.ip })
+      res.status(401).json({ error: 'Unauthorized' })
+    })
+    .catch(next)
+}
+
+/**
+ * Express middleware for admin endpoints: `Authorization: Bearer <ADMIN_TOKEN>`.
+ * Without ADMIN_TOKEN the endpoints don't exist.
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction): void {
+  if (!process.env.ADMIN_TOKEN) {
+    res.status(404).json({ error: 'Not found' })
+    return
+  }
+
+  if (!isAdminToken(readToken(req.get('authorization'), undefined))) {
+    log.warn('Rejected admin request', { requestId: res.locals.requestId, path: req.path, ip: req.ip })
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  next()
+}
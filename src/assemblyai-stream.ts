@@ -5,25 +5,122 @@
  * Updated to use NEW Streaming STT API (/v3/ws endpoint)
  */
 
-import { StreamingTranscriber } from 'assemblyai'
+import { AssemblyAI, StreamingSpeechModel, StreamingTranscriber, StreamingTranscriberParams, TranscribeParams, TurnEvent } from 'assemblyai'
 import { EventEmitter } from 'events'
+import { createLogger } from './logger'
+import { providerBytesSent, providerErrors } from './metrics'
+import {
+  BatchTranscriptSegment,
+  ParticipantRecording,
+  TranscriptResult,
+  TranscriptWord,
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionStream
+} from './types'
 
-export interface TranscriptResult {
-  text: string
-  isFinal: boolean
-  confidence: number
+const log = createLogger('AssemblyAI')
+
+// AssemblyAI accepts up to 100 key terms of at most 50 characters each
+const MAX_KEYTERMS = 100
+const MAX_KEYTERM_LENGTH = 50
+
+// How long to wait for a streaming session to begin, or to confirm it has ended
+const SOCKET_TIMEOUT_MS = Number(process.env.ASSEMBLYAI_SOCKET_TIMEOUT_MS) || 10000
+
+/**
+ * Reject if a promise hasn't settled within `ms`
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Trim, de-duplicate and cap key terms; earlier terms win when over the limit
+ */
+function normalizeKeyterms(terms: string[] = []): string[] | undefined {
+  const seen = new Set<string>()
+  const keyterms: string[] = []
+
+  for (const term of terms) {
+    const trimmed = term.trim()
+    const key = trimmed.toLowerCase()
+    if (!trimmed || trimmed.length > MAX_KEYTERM_LENGTH || seen.has(key)) continue
+    seen.add(key)
+    keyterms.push(trimmed)
+    if (keyterms.length === MAX_KEYTERMS) break
+  }
+
+  return keyterms.length > 0 ? keyterms : undefined
+}
+
+/**
+ * Map room options onto streaming session parameters. Streaming has no
+ * language code: anything other than English needs the multilingual model,
+ * which detects the language itself.
+ */
+function toStreamingParams(options: TranscriptionOptions): Partial<StreamingTranscriberParams> {
+  const { language } = options
+  const needsMultilingual = language !== undefined && language !== 'auto' && !language.toLowerCase().startsWith('en')
+
+  let speechModel = options.speechModel as StreamingSpeechModel | undefined
+  if (!speechModel && (language === 'auto' || needsMultilingual)) {
+    speechModel = 'universal-streaming-multilingual'
+  }
+
+  return {
+    speechModel,
+    languageDetection: language === 'auto' ? true : undefined,
+    keytermsPrompt: normalizeKeyterms(options.keyterms),
+    formatTurns: options.formatTurns,
+    filterProfanity: options.filterProfanity
+  }
+}
+
+/**
+ * Map room options onto batch transcription parameters
+ */
+function toBatchParams(options: TranscriptionOptions): Omit<TranscribeParams, 'audio'> {
+  const { language } = options
+
+  return {
+    language_code: language && language !== 'auto' ? language : undefined,
+    language_detection: language === 'auto' ? true : undefined,
+    speech_model: options.speechModel as TranscribeParams['speech_model'],
+    keyterms_prompt: normalizeKeyterms(options.keyterms),
+    punctuate: options.formatTurns,
+    format_text: options.formatTurns,
+    filter_profanity: options.filterProfanity
+  }
 }
 
-export class AssemblyAIStream extends EventEmitter {
+/**
+ * Turn events carry no overall confidence, so average the word confidences
+ */
+function averageWordConfidence(turn: TurnEvent): number {
+  if (!turn.words || turn.words.length === 0) return 0.9
+
+  const total = turn.words.reduce((sum, word) => sum + word.confidence, 0)
+  return total / turn.words.length
+}
+
+export class AssemblyAIStream extends EventEmitter implements TranscriptionStream {
   private transcriber: StreamingTranscriber | null = null
   private isConnected = false
+  private sessionId = ''
   private participantId: string
   private participantName: string
+  private options: TranscriptionOptions
 
-  constructor(participantId: string, participantName: string) {
+  constructor(participantId: string, participantName: string, options: TranscriptionOptions = {}) {
     super()
     this.participantId = participantId
     this.participantName = participantName
+    this.options = options
   }
 
   /**
@@ -32,6 +129,15 @@ export class AssemblyAIStream extends EventEmitter {
   async connect(): Promise<void> {
     if (this.isConnected) return
 
+    // The SDK's connect() resolves when the session begins but never rejects: a
+    // refused or dropped socket only reaches the error and close listeners
+    let connecting = true
+    let rejectConnect: (error: Error) => void = () => {}
+    const connectFailed = new Promise<never>((_, reject) => {
+      rejectConnect = reject
+    })
+    let sessionBegun: Promise<unknown> | null = null
+
     try {
       const apiKey = process.env.ASSEMBLYAI_API_KEY
       if (!apiKey) {
@@ -39,47 +145,95 @@ export class AssemblyAIStream extends EventEmitter {
       }
 
       // Use current Streaming API with direct API key
-      this.transcriber = new StreamingTranscriber({
+      const transcriber = new StreamingTranscriber({
         apiKey,
+        websocketBaseUrl: process.env.ASSEMBLYAI_STREAMING_URL || undefined,
         sampleRate: 16000,
         encoding: 'pcm_s16le',
+        ...toStreamingParams(this.options)
       })
+      this.transcriber = transcriber
 
-      this.transcriber.on('open', ({ id, expires_at }) => {
-        console.log(`[AssemblyAI] Connected for ${this.participantName}:`, id, 'expires:', expires_at)
+      // Events from a transcriber that failed to connect are ignored
+      const isCurrent = () => this.transcriber === transcriber
+
+      transcriber.on('open', ({ id, expires_at }) => {
+        if (!isCurrent()) return
+        log.info('Connected', { participantName: this.participantName, providerSessionId: id, expiresAt: expires_at })
         this.isConnected = true
-        this.emit('connected', id)
+        this.sessionId = id
+        // expires_at is in seconds; sessions must be replaced before then
+        this.emit('connected', id, new Date(expires_at * 1000))
       })
 
       // NEW API uses 'turn' event instead of 'transcript'
-      // Note: turn.transcript is a simple string, not an object
-      this.transcriber.on('turn', (turn: any) => {
+      // Note: turn.transcript is a simple string, not an object.
+      // A turn is re-sent as it grows; end_of_turn marks the final version.
+      transcriber.on('turn', (turn: TurnEvent) => {
+        if (!isCurrent()) return
         if (!turn.transcript || typeof turn.transcript !== 'string') return
         if (turn.transcript.trim() === '') return
 
+        // Word times are ms offsets into the audio sent to this session
+        const words: TranscriptWord[] = (turn.words || []).map(word => ({
+          text: word.text,
+          startMs: word.start,
+          endMs: word.end,
+          confidence: word.confidence
+        }))
+
         const result: TranscriptResult = {
+          // turn_order restarts with each session, so scope it to the session id
+          turnId: `${this.sessionId}:${turn.turn_order}`,
           text: turn.transcript,
-          isFinal: true, // Turn events are always final
-          confidence: turn.confidence || 0.9
+          isFinal: turn.end_of_turn,
+          confidence: averageWordConfidence(turn),
+          startMs: words[0]?.startMs,
+          endMs: words[words.length - 1]?.endMs,
+          words
         }
 
         this.emit('transcript', result)
       })
 
-      this.transcriber.on('error', (error) => {
-        console.error(`[AssemblyAI] Error for ${this.participantName}:`, error)
+      transcriber.on('error', (error) => {
+        if (!isCurrent()) return
+        if (connecting) {
+          rejectConnect(error)
+          return
+        }
+        log.error('Stream error', { participantName: this.participantName, error })
+        providerErrors.inc({ provider: 'assemblyai' })
         this.emit('error', error)
       })
 
-      this.transcriber.on('close', (code, reason) => {
-        console.log(`[AssemblyAI] Closed for ${this.participantName}:`, code, reason)
+      transcriber.on('close', (code, reason) => {
+        if (!isCurrent()) return
+        if (connecting) {
+          rejectConnect(new Error(`Connection closed before the session began (${code}${reason ? `: ${reason}` : ''})`))
+          return
+        }
+        log.info('Closed', { participantName: this.participantName, code, reason })
         this.isConnected = false
         this.emit('closed')
       })
 
-      await this.transcriber.connect()
+      sessionBegun = transcriber.connect()
+      await withTimeout(
+        Promise.race([sessionBegun, connectFailed]),
+        SOCKET_TIMEOUT_MS,
+        `Session did not begin within ${SOCKET_TIMEOUT_MS}ms`
+      )
+      connecting = false
     } catch (error) {
-      console.error(`[AssemblyAI] Failed to connect for ${this.participantName}:`, error)
+      connecting = false
+      log.error('Failed to connect', { participantName: this.participantName, error })
+      providerErrors.inc({ provider: 'assemblyai' })
+
+      // Give up on this transcriber. If its session begins after all, end it so it isn't billed.
+      const abandoned = this.transcriber
+      this.transcriber = null
+      sessionBegun?.then(() => abandoned?.close(false)).catch(() => {})
       throw error
     }
   }
@@ -96,8 +250,10 @@ export class AssemblyAIStream extends EventEmitter {
     try {
       // Convert Int16Array to ArrayBuffer for AssemblyAI
       this.transcriber.sendAudio(audioData.buffer)
+      providerBytesSent.inc({ provider: 'assemblyai' }, audioData.byteLength)
     } catch (error) {
-      console.error(`[AssemblyAI] Error sending audio for ${this.participantName}:`, error)
+      log.error('Error sending audio', { participantName: this.participantName, error })
+      providerErrors.inc({ provider: 'assemblyai' })
     }
   }
 
@@ -112,11 +268,15 @@ export class AssemblyAIStream extends EventEmitter {
    * Close the transcription stream
    */
   async close(): Promise<void> {
-    if (this.transcriber) {
+    const transcriber = this.transcriber
+    if (transcriber) {
       try {
-        await this.transcriber.close()
+        // Waits for AssemblyAI to confirm the session ended, so the last turn is finalized
+        await withTimeout(transcriber.close(), SOCKET_TIMEOUT_MS, `Session did not end within ${SOCKET_TIMEOUT_MS}ms`)
       } catch (error) {
-        console.error(`[AssemblyAI] Error closing for ${this.participantName}:`, error)
+        log.error('Error closing', { participantName: this.participantName, error })
+        // Stop waiting and drop the socket
+        await transcriber.close(false).catch(() => {})
       }
       this.transcriber = null
     }
@@ -134,3 +294,46 @@ export class AssemblyAIStream extends EventEmitter {
     return this.participantName
   }
 }
+
+/**
+ * Transcribe a finished recording with the async (non-streaming) API.
+ * Returns one segment per sentence, with offsets into the recording.
+ */
+export async function transcribeRecording(
+  recording: ParticipantRecording,
+  options: TranscriptionOptions = {}
+): Promise<BatchTranscriptSegment[]> {
+  const apiKey = process.env.ASSEMBLYAI_API_KEY
+  if (!apiKey) {
+    throw new Error('Missing ASSEMBLYAI_API_KEY')
+  }
+
+  const client = new AssemblyAI({ apiKey })
+
+  // Uploads the local file and polls until the transcript is ready
+  const transcript = await client.transcripts.transcribe({ audio: recording.filePath, ...toBatchParams(options) })
+  if (transcript.status === 'error') {
+    throw new Error(`AssemblyAI transcription failed for ${recording.participantName}: ${transcript.error}`)
+  }
+
+  const { sentences } = await client.transcripts.sentences(transcript.id)
+
+  return sentences.map(sentence => ({
+    text: sentence.text,
+    confidence: sentence.confidence,
+    startMs: sentence.start,
+    endMs: sentence.end,
+    words: sentence.words.map(word => ({
+      text: word.text,
+      startMs: word.start,
+      endMs: word.end,
+      confidence: word.confidence
+    }))
+  }))
+}
+
+export const assemblyAIProvider: TranscriptionProvider = {
+  name: 'assemblyai',
+  createStream: (participantId, participantName, options) => new AssemblyAIStream(participantId, participantName, options),
+  transcribeRecording
+}
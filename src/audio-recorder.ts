@@ -0,0 +1,123 @@
+/**
+ * Audio Recorder
+ *
+ * Writes a participant's VAD-gated audio to a local 16-bit mono WAV file
+ * for post-call transcription. Silent chunks are never written, so the file
+ * is shorter than the meeting; each run of speech is recorded on a timeline
+ * so offsets in the file can be mapped back to meeting time.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { AudioTimeline } from './audio-timeline'
+import { createLogger } from './logger'
+import { ParticipantRecording } from './types'
+
+const log = createLogger('AudioRecorder')
+
+const WAV_HEADER_BYTES = 44
+
+/**
+ * Build a PCM WAV header for 16-bit mono audio
+ */
+function buildWavHeader(dataBytes: number, sampleRate: number): Buffer {
+  const header = Buffer.alloc(WAV_HEADER_BYTES)
+
+  header.write('RIFF', 0)
+  header.writeUInt32LE(36 + dataBytes, 4)
+  header.write('WAVE', 8)
+  header.write('fmt ', 12)
+  header.writeUInt32LE(16, 16)             // fmt chunk size
+  header.writeUInt16LE(1, 20)              // PCM
+  header.writeUInt16LE(1, 22)              // mono
+  header.writeUInt32LE(sampleRate, 24)
+  header.writeUInt32LE(sampleRate * 2, 28) // byte rate
+  header.writeUInt16LE(2, 32)              // block align
+  header.writeUInt16LE(16, 34)             // bits per sample
+  header.write('data', 36)
+  header.writeUInt32LE(dataBytes, 40)
+
+  return header
+}
+
+export class AudioRecorder {
+  private file: fs.FileHandle | null = null
+  private writeChain: Promise<void> = Promise.resolve()
+  private dataBytes = 0
+  private timeline = new AudioTimeline()
+  private participantId: string
+  private participantName: string
+  private sampleRate: number
+  private filePath: string
+
+  constructor(participantId: string, participantName: string, directory: string, sampleRate: number = 16000) {
+    this.participantId = participantId
+    this.participantName = participantName
+    this.sampleRate = sampleRate
+
+    const safeId = participantId.replace(/[^a-zA-Z0-9_-]/g, '_')
+    this.filePath = path.join(directory, `${safeId}-${Date.now()}.wav`)
+  }
+
+  /**
+   * Create the file and reserve space for the WAV header
+   */
+  async open(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    this.file = await fs.open(this.filePath, 'w')
+    await this.file.write(buildWavHeader(0, this.sampleRate), 0, WAV_HEADER_BYTES, 0)
+  }
+
+  /**
+   * Append a chunk of speech that began at `meetingMs` on the meeting clock
+   */
+  write(audioData: Int16Array, meetingMs: number): void {
+    if (!this.file) return
+
+    this.timeline.append((audioData.length / this.sampleRate) * 1000, meetingMs)
+
+    const file = this.file
+    const buffer = Buffer.from(audioData.buffer, audioData.byteOffset, audioData.byteLength)
+    const position = WAV_HEADER_BYTES + this.dataBytes
+    this.dataBytes += buffer.length
+
+    this.writeChain = this.writeChain
+      .then(() => file.write(buffer, 0, buffer.length, position))
+      .then(() => undefined)
+      .catch(error => {
+        log.error('Error writing audio', { participantId: this.participantId, error })
+      })
+  }
+
+  /**
+   * Mark a silent gap; the next write starts a new segment
+   */
+  markGap(): void {
+    this.timeline.markGap()
+  }
+
+  /**
+   * Flush pending writes, finalize the WAV header and close the file
+   */
+  async close(): Promise<ParticipantRecording> {
+    if (this.file) {
+      const file = this.file
+      this.file = null
+
+      await this.writeChain
+      try {
+        await file.write(buildWavHeader(this.dataBytes, this.sampleRate), 0, WAV_HEADER_BYTES, 0)
+      } finally {
+        await file.close()
+      }
+    }
+
+    return {
+      participantId: this.participantId,
+      participantName: this.participantName,
+      filePath: this.filePath,
+      sampleRate: this.sampleRate,
+      segments: this.timeline.getAnchors()
+    }
+  }
+}
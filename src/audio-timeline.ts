@@ -0,0 +1,78 @@
+/**
+ * Audio Timeline
+ *
+ * VAD only forwards speech, so offsets reported by a provider are positions
+ * in a gated stream, not in the meeting. The timeline records where each
+ * run of forwarded audio sits on the meeting clock so those offsets can be
+ * mapped back.
+ */
+
+import { TimelineAnchor } from './types'
+
+export class AudioTimeline {
+  private anchors: TimelineAnchor[] = []
+  private lengthMs = 0
+  private contiguous = false
+
+  /**
+   * Rebuild a timeline from saved anchors (e.g. a finished recording)
+   */
+  static fromAnchors(anchors: TimelineAnchor[]): AudioTimeline {
+    const timeline = new AudioTimeline()
+    timeline.anchors = [...anchors]
+    return timeline
+  }
+
+  /**
+   * Record a forwarded chunk that began at `meetingMs` on the meeting clock
+   */
+  append(durationMs: number, meetingMs: number): void {
+    if (!this.contiguous) {
+      this.anchors.push({ offsetMs: this.lengthMs, meetingMs })
+      this.contiguous = true
+    }
+    this.lengthMs += durationMs
+  }
+
+  /**
+   * Audio was skipped; the next chunk starts a new anchor
+   */
+  markGap(): void {
+    this.contiguous = false
+  }
+
+  /**
+   * Map an offset in the forwarded audio to the meeting clock
+   */
+  toMeetingMs(offsetMs: number): number {
+    if (this.anchors.length === 0) return offsetMs
+
+    let anchor = this.anchors[0]
+    for (const candidate of this.anchors) {
+      if (candidate.offsetMs > offsetMs) break
+      anchor = candidate
+    }
+
+    return anchor.meetingMs + Math.max(0, offsetMs - anchor.offsetMs)
+  }
+
+  getAnchors(): TimelineAnchor[] {
+    return this.anchors
+  }
+
+  /**
+   * Total forwarded audio
+   */
+  getLengthMs(): number {
+    return this.lengthMs
+  }
+
+  /**
+   * Start over, e.g. when the provider opens a new session whose offsets restart at 0
+   */
+  reset(): void {
+    this.anchors = []
+    this.lengthMs = 0
+    this.contiguous = false
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Fake Transcription Provider
+ *
+ * Deterministic, offline stand-in for a real speech-to-text vendor.
+ * Emits scripted turns once a participant has sent enough audio, so the
+ * whole pipeline (LiveKit -> VAD -> provider -> Supabase) can run in CI
+ * without an AssemblyAI key.
+ *
+ * Script format (FAKE_TRANSCRIPTION_SCRIPT points at a JSON file):
+ * {
+ *   "turns": [
+ *     { "participantId": "alice", "afterAudioMs": 1200, "text": "Hello everyone" },
+ *     { "afterAudioMs": 3000, "text": "Emitted for any participant" }
+ *   ]
+ * }
+ *
+ * Each turn spans the audio since the previous turn, with its words spread evenly.
+ */
+
+import { EventEmitter } from 'events'
+import { readFileSync } from 'fs'
+import { stat } from 'fs/promises'
+import {
+  BatchTranscriptSegment,
+  ParticipantRecording,
+  TranscriptResult,
+  TranscriptWord,
+  TranscriptionProvider,
+  TranscriptionStream
+} from './types'
+
+const SAMPLE_RATE = 16000
+
+export interface FakeTurn {
+  /** Only emit for this participant (omit to emit for everyone) */
+  participantId?: string
+  /** Emit once this much audio has been sent to the stream */
+  afterAudioMs: number
+  text: string
+  confidence?: number
+}
+
+export interface FakeScript {
+  turns: FakeTurn[]
+}
+
+const DEFAULT_SCRIPT: FakeScript = {
+  turns: [
+    { afterAudioMs: 600, text: 'This is a scripted transcript from the fake provider.' }
+  ]
+}
+
+export class FakeTranscriptionStream extends EventEmitter implements TranscriptionStream {
+  private isConnected = false
+  private audioMs = 0
+  // Offsets are reported per session, like a real provider
+  private sessionAudioMs = 0
+  private lastTurnEndMs = 0
+  private pending: FakeTurn[]
+  private participantId: string
+  private turnCount = 0
+
+  constructor(participantId: string, script: FakeScript) {
+    super()
+    this.participantId = participantId
+    this.pending = script.turns
+      .filter(turn => !turn.participantId || turn.participantId === participantId)
+      .sort((a, b) => a.afterAudioMs - b.afterAudioMs)
+  }
+
+  async connect(): Promise<void> {
+    if (this.isConnected) return
+
+    this.isConnected = true
+    this.sessionAudioMs = 0
+    this.lastTurnEndMs = 0
+    this.emit('connected', `fake-${this.participantId}`)
+  }
+
+  sendAudio(audioData: Int16Array): void {
+    if (!this.isConnected) return
+
+    const chunkMs = (audioData.length / SAMPLE_RATE) * 1000
+    this.audioMs += chunkMs
+    this.sessionAudioMs += chunkMs
+
+    while (this.pending.length > 0 && this.pending[0].afterAudioMs <= this.audioMs) {
+      const turn = this.pending.shift()!
+      const confidence = turn.confidence ?? 1
+      const startMs = this.lastTurnEndMs
+      const endMs = this.sessionAudioMs
+      this.lastTurnEndMs = endMs
+
+      const result: TranscriptResult = {
+        turnId: `fake-${this.participantId}:${this.turnCount++}`,
+        text: turn.text,
+        isFinal: true,
+        confidence,
+        startMs,
+        endMs,
+        words: spreadWords(turn.text, startMs, endMs, confidence)
+      }
+      this.emit('transcript', result)
+    }
+  }
+
+  isActive(): boolean {
+    return this.isConnected
+  }
+
+  async close(): Promise<void> {
+    if (!this.isConnected) return
+
+    this.isConnected = false
+    this.emit('closed')
+  }
+}
+
+/**
+ * Spread a turn's words evenly between its start and end
+ */
+function spreadWords(text: string, startMs: number, endMs: number, confidence: number): TranscriptWord[] {
+  const tokens = text.split(/\s+/).filter(Boolean)
+  const wordMs = tokens.length > 0 ? (endMs - startMs) / tokens.length : 0
+
+  return tokens.map((token, index) => ({
+    text: token,
+    startMs: startMs + index * wordMs,
+    endMs: startMs + (index + 1) * wordMs,
+    confidence
+  }))
+}
+
+/**
+ * Duration of a 16-bit mono WAV recording, from its file size
+ */
+async function recordingDurationMs(recording: ParticipantRecording): Promise<number> {
+  const { size } = await stat(recording.filePath)
+  return (Math.max(0, size - 44) / 2 / recording.sampleRate) * 1000
+}
+
+/**
+ * Create a fake provider that plays back the given script
+ */
+export function createFakeProvider(script: FakeScript = DEFAULT_SCRIPT): TranscriptionProvider {
+  return {
+    name: 'fake',
+    createStream: (participantId) => new FakeTranscriptionStream(participantId, script),
+
+    // Batch mode plays back the same script, placing each turn at its
+    // audio offset (capped to the recorded audio) in the recording
+    transcribeRecording: async (recording: ParticipantRecording): Promise<BatchTranscriptSegment[]> => {
+      const recordedMs = await recordingDurationMs(recording)
+
+      return script.turns
+        .filter(turn => !turn.participantId || turn.participantId === recording.participantId)
+        .filter(turn => turn.afterAudioMs <= recordedMs)
+        .sort((a, b) => a.afterAudioMs - b.afterAudioMs)
+        .map((turn, index, turns) => {
+          const startMs = index > 0 ? turns[index - 1].afterAudioMs : 0
+          const confidence = turn.confidence ?? 1
+
+          return {
+            text: turn.text,
+            confidence,
+            startMs,
+            endMs: turn.afterAudioMs,
+            words: spreadWords(turn.text, startMs, turn.afterAudioMs, confidence)
+          }
+        })
+    }
+  }
+}
+
+/**
+ * Load the script named by FAKE_TRANSCRIPTION_SCRIPT, or the default one
+ */
+export function loadFakeScript(): FakeScript {
+  const scriptPath = process.env.FAKE_TRANSCRIPTION_SCRIPT
+  if (!scriptPath) return DEFAULT_SCRIPT
+
+  return JSON.parse(readFileSync(scriptPath, 'utf8')) as FakeScript
+}
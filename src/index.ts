@@ -6,15 +6,53 @@
  * and sends to AssemblyAI for real-time transcription.
  */
 
-import express from 'express'
+import crypto from 'crypto'
+import express, { Response } from 'express'
+import { createLogger, getLogLevels, isLogLevel, Logger, LogLevel, setLogLevel } from './logger'
+import { metrics } from './metrics'
+import { checkRedactionConfig } from './redaction'
 import { roomManager } from './room-manager'
 import { WebhookPayload } from './types'
+import { getSessionAnalytics, getSessionTranscript, getTranscriptSpoolBacklog, startTranscriptSpool } from './supabase'
+import { EXPORT_FORMATS, isExportFormat, renderTranscript } from './transcript-export'
+import { sinkDispatcher } from './transcript-sinks'
+import { attachTranscriptWebSocket, handleTranscriptSse } from './transcript-stream'
+import { requireAdminToken, requireRoomAccess } from './api-auth'
+import { captureRawBody, requireLiveKitSignature, requireMeetingBurnerSignature } from './webhook-auth'
 
 // Load environment variables
 require('dotenv').config()
 
+const log = createLogger('API')
+const webhookLog = createLogger('Webhook')
+const serverLog = createLogger('Server')
+
 const app = express()
-app.use(express.json())
+
+/**
+ * Give each request an id: the caller's X-Request-Id, or a new one. It is
+ * echoed back and bound to the request's log entries.
+ */
+app.use((req, res, next) => {
+  const requestId = req.get('x-request-id') || crypto.randomUUID()
+  res.locals.requestId = requestId
+  res.setHeader('X-Request-Id', requestId)
+  next()
+})
+
+/**
+ * A logger with the request's id bound
+ */
+function forRequest(logger: Logger, res: Response): Logger {
+  return logger.child({ requestId: res.locals.requestId })
+}
+
+// Keep the raw body for webhook signature checks. LiveKit posts
+// application/webhook+json, so accept that alongside plain JSON.
+app.use(express.json({
+  type: ['application/json', 'application/webhook+json'],
+  verify: captureRawBody
+}))
 
 const PORT = process.env.PORT || 3002
 
@@ -25,10 +63,18 @@ app.get('/health', (req, res) => {
   res.json({
     status: 'healthy',
     activeRooms: roomManager.getActiveRooms().length,
+    transcriptSpoolBacklog: getTranscriptSpoolBacklog(),
     uptime: process.uptime()
   })
 })
 
+/**
+ * Prometheus metrics for the audio and transcription pipeline
+ */
+app.get('/metrics', (req, res) => {
+  res.type('text/plain; version=0.0.4').send(metrics.render())
+})
+
 /**
  * Get status of all active rooms
  */
@@ -41,12 +87,100 @@ app.get('/rooms', (req, res) => {
   res.json({ rooms })
 })
 
+/**
+ * Delivery stats for outbound transcript sinks
+ */
+app.get('/sinks', (req, res) => {
+  res.json({ sinks: sinkDispatcher.getAllStats() })
+})
+
+/**
+ * Speaker talk-time and interaction analytics
+ * GET /rooms/:roomId/analytics?session=<id>
+ *
+ * Live stats while the room is transcribing; otherwise the stats saved
+ * when the session (or the one given) ended. Requires a token for the room.
+ */
+app.get('/rooms/:roomId/analytics', requireRoomAccess, async (req, res) => {
+  const { roomId } = req.params
+  const sessionId = typeof req.query.session === 'string' ? req.query.session : undefined
+
+  const live = roomManager.getRoomAnalytics(roomId)
+  if (live && (!sessionId || sessionId === live.sessionId)) {
+    res.json({ live: true, ...live })
+    return
+  }
+
+  try {
+    const analytics = await getSessionAnalytics(roomId, sessionId)
+    if (!analytics) {
+      res.status(404).json({ error: 'Analytics not found' })
+      return
+    }
+
+    res.json({ live: false, ...analytics })
+  } catch (error) {
+    forRequest(log, res).error('Error loading analytics', { roomId, sessionId, error })
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+/**
+ * Export a session's transcript
+ * GET /rooms/:roomId/transcript?format=srt|vtt|json|txt|md&session=<id>
+ *
+ * Defaults to JSON and the room's most recent session. Requires a LiveKit
+ * token for the room or ADMIN_TOKEN (see api-auth.ts).
+ */
+app.get('/rooms/:roomId/transcript', requireRoomAccess, async (req, res) => {
+  const { roomId } = req.params
+  const format = req.query.format ?? 'json'
+  const sessionId = typeof req.query.session === 'string' ? req.query.session : undefined
+
+  if (!isExportFormat(format)) {
+    res.status(400).json({ error: `Unsupported format, expected one of: ${EXPORT_FORMATS.join(', ')}` })
+    return
+  }
+
+  try {
+    const transcript = await getSessionTranscript(roomId, sessionId)
+    if (!transcript) {
+      res.status(404).json({ error: 'Transcript not found' })
+      return
+    }
+
+    const rendered = renderTranscript(transcript.segments, format, {
+      roomId,
+      sessionId: transcript.sessionId,
+      startedAt: transcript.startedAt
+    })
+
+    res
+      .type(rendered.contentType)
+      .attachment(`transcript-${roomId}-${transcript.sessionId}.${rendered.extension}`)
+      .send(rendered.body)
+  } catch (error) {
+    forRequest(log, res).error('Error exporting transcript', { roomId, sessionId, error })
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+/**
+ * Live transcript stream (Server-Sent Events)
+ * GET /rooms/:roomId/stream?speaker=<id or name>&lastEventId=<id>
+ *
+ * The same path accepts WebSocket upgrades (see transcript-stream.ts).
+ * Requires a token for the room; 404 while the room isn't transcribed live here.
+ */
+app.get('/rooms/:roomId/stream', requireRoomAccess, handleTranscriptSse)
+
 /**
  * Manually start transcription for a room
  * POST /rooms/:roomId/start
  */
 app.post('/rooms/:roomId/start', async (req, res) => {
   const { roomId } = req.params
+  const requestLog = forRequest(log, res)
 
   // Return immediately and start in background
   res.json({ success: true, message: `Starting transcription for room ${roomId}`, status: 'starting' })
@@ -54,10 +188,10 @@ app.post('/rooms/:roomId/start', async (req, res) => {
   // Start transcription in background
   roomManager.startRoom(roomId).then(success => {
     if (!success) {
-      console.error(`[API] Failed to start transcription for room ${roomId}`)
+      requestLog.error('Failed to start transcription', { roomId })
     }
   }).catch(error => {
-    console.error(`[API] Error starting transcription for room ${roomId}:`, error)
+    requestLog.error('Error starting transcription', { roomId, error })
   })
 })
 
@@ -82,15 +216,19 @@ app.post('/rooms/:roomId/stop', async (req, res) => {
  * - room_finished: Stop transcription bot
  * - participant_joined: Could use for per-participant logic
  * - participant_left: Could use for cleanup
+ *
+ * Requests must carry a valid LiveKit-signed Authorization header.
  */
-app.post('/webhook/livekit', async (req, res) => {
+app.post('/webhook/livekit', requireLiveKitSignature, async (req, res) => {
   const payload: WebhookPayload = req.body
-
-  console.log(`[Webhook] Received event: ${payload.event}`, {
-    room: payload.room?.name,
-    participant: payload.participant?.name || payload.participant?.identity
+  const requestLog = forRequest(webhookLog, res).child({
+    source: 'livekit',
+    event: payload.event,
+    roomId: payload.room?.name
   })
 
+  requestLog.info('Received event', { participantId: payload.participant?.identity })
+
   try {
     switch (payload.event) {
       case 'room_started':
@@ -109,21 +247,21 @@ app.post('/webhook/livekit', async (req, res) => {
 
       case 'participant_joined':
         // Could handle per-participant logic here
-        console.log(`[Webhook] Participant joined: ${payload.participant?.name || payload.participant?.identity}`)
+        requestLog.info('Participant joined', { participantId: payload.participant?.identity })
         break
 
       case 'participant_left':
         // Could handle cleanup here
-        console.log(`[Webhook] Participant left: ${payload.participant?.name || payload.participant?.identity}`)
+        requestLog.info('Participant left', { participantId: payload.participant?.identity })
         break
 
       default:
-        console.log(`[Webhook] Unhandled event: ${payload.event}`)
+        requestLog.info('Unhandled event')
     }
 
     res.json({ received: true })
   } catch (error) {
-    console.error(`[Webhook] Error handling ${payload.event}:`, error)
+    requestLog.error('Error handling event', { error })
     res.status(500).json({ error: 'Internal server error' })
   }
 })
@@ -134,11 +272,15 @@ app.post('/webhook/livekit', async (req, res) => {
  *
  * Alternative to LiveKit webhooks - called by MeetingBurner directly
  * when rooms are created/ended
+ *
+ * Requests must be signed with MEETINGBURNER_WEBHOOK_SECRET
+ * (see webhook-auth.ts for the signature scheme).
  */
-app.post('/webhook/meetingburner', async (req, res) => {
+app.post('/webhook/meetingburner', requireMeetingBurnerSignature, async (req, res) => {
   const { event, roomId, data } = req.body
+  const requestLog = forRequest(webhookLog, res).child({ source: 'meetingburner', event, roomId })
 
-  console.log(`[MB Webhook] Received event: ${event}`, { roomId })
+  requestLog.info('Received event')
 
   try {
     switch (event) {
@@ -157,21 +299,62 @@ app.post('/webhook/meetingburner', async (req, res) => {
         break
 
       default:
-        console.log(`[MB Webhook] Unhandled event: ${event}`)
+        requestLog.info('Unhandled event')
     }
 
     res.json({ received: true })
   } catch (error) {
-    console.error(`[MB Webhook] Error handling ${event}:`, error)
+    requestLog.error('Error handling event', { error })
     res.status(500).json({ error: 'Internal server error' })
   }
 })
 
+/**
+ * Log levels: the default and per-module overrides
+ * GET /admin/log-levels
+ */
+app.get('/admin/log-levels', requireAdminToken, (req, res) => {
+  res.json(getLogLevels())
+})
+
+/**
+ * Change log levels at runtime
+ * PUT /admin/log-levels {"default": "info", "modules": {"LiveKitBot": "debug", "Supabase": null}}
+ *
+ * A null module level clears the override. Requires ADMIN_TOKEN.
+ */
+app.put('/admin/log-levels', requireAdminToken, (req, res) => {
+  const { default: defaultLevel, modules = {} } = req.body ?? {}
+
+  if (defaultLevel !== undefined && !isLogLevel(defaultLevel)) {
+    res.status(400).json({ error: 'Invalid default level' })
+    return
+  }
+  if (!modules || typeof modules !== 'object' || Array.isArray(modules)) {
+    res.status(400).json({ error: 'modules must be an object of module name to level' })
+    return
+  }
+  const invalid = Object.entries(modules).filter(([, level]) => level !== null && !isLogLevel(level))
+  if (invalid.length > 0) {
+    res.status(400).json({ error: `Invalid level for: ${invalid.map(([module]) => module).join(', ')}` })
+    return
+  }
+
+  if (defaultLevel) setLogLevel('*', defaultLevel)
+  for (const [module, level] of Object.entries(modules)) {
+    setLogLevel(module, level as LogLevel | null)
+  }
+
+  const levels = getLogLevels()
+  forRequest(log, res).info('Log levels changed', { levels })
+  res.json(levels)
+})
+
 /**
  * Graceful shutdown
  */
 async function shutdown() {
-  console.log('\n[Server] Shutting down...')
+  serverLog.info('Shutting down')
   await roomManager.stopAll()
   process.exit(0)
 }
@@ -182,20 +365,16 @@ process.on('SIGTERM', shutdown)
 /**
  * Start server
  */
-app.listen(PORT, () => {
-  console.log(`
-╔═══════════════════════════════════════════════════════════════╗
-║     MeetingBurner Transcription Service                       ║
-║                                                               ║
-║     Listening on port ${PORT}                                    ║
-║                                                               ║
-║     Endpoints:                                                ║
-║     - GET  /health              Health check                  ║
-║     - GET  /rooms               List active rooms             ║
-║     - POST /rooms/:id/start     Start transcription           ║
-║     - POST /rooms/:id/stop      Stop transcription            ║
-║     - POST /webhook/livekit     LiveKit webhook               ║
-║     - POST /webhook/meetingburner  MeetingBurner webhook      ║
-╚═══════════════════════════════════════════════════════════════╝
-  `)
+const server = app.listen(PORT, () => {
+  serverLog.info('MeetingBurner Transcription Service listening', { port: Number(PORT) })
 })
+
+attachTranscriptWebSocket(server)
+
+checkRedactionConfig()
+
+startTranscriptSpool().catch(error => {
+  serverLog.error('Could not load transcript spool', { error })
+})
+
+roomManager.watchOrphanedSessions()
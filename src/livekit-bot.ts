@@ -2,42 +2,246 @@
  * LiveKit Bot
  *
  * Joins a LiveKit room as a hidden participant and subscribes to all audio tracks.
- * Processes audio through VAD and forwards to AssemblyAI for transcription.
+ * Processes audio through VAD and forwards to the configured transcription provider.
  *
  * Uses @livekit/rtc-node for Node.js server-side compatibility.
  */
 
-import { Room, RoomEvent, RemoteParticipant, RemoteTrack, RemoteTrackPublication, AudioStream, TrackKind, dispose } from '@livekit/rtc-node'
-import { AccessToken } from 'livekit-server-sdk'
+import { Room, RoomEvent, Participant, RemoteParticipant, RemoteTrack, RemoteTrackPublication, AudioStream, TrackKind, TrackPublication, TrackSource, DisconnectReason, dispose } from '@livekit/rtc-node'
+import { AccessToken, RoomServiceClient } from 'livekit-server-sdk'
 import { EventEmitter } from 'events'
-import { detectVoiceActivity, float32ToInt16, AudioBuffer } from './vad'
-import { AssemblyAIStream, TranscriptResult } from './assemblyai-stream'
-import { TranscriptEvent } from './types'
+import os from 'os'
+import path from 'path'
+import { createVad, VadConfig, VadStrategy, float32ToInt16, AudioBuffer } from './vad'
+import { AudioRecorder } from './audio-recorder'
+import { AudioTimeline } from './audio-timeline'
+import { ResilientStream, StreamStats } from './resilient-stream'
+import { createLogger, Logger } from './logger'
+import { audioFramesReceived, turnLatency, vadAudioSeconds } from './metrics'
+import { ConsentDecision, ConsentPolicy, evaluateConsent, getDefaultConsentPolicy } from './participant-consent'
+import { toTranscriptPayload } from './supabase'
+import {
+  CaptionOptions,
+  ParticipantRecording,
+  SpeechActivity,
+  TranscriptEvent,
+  TranscriptResult,
+  TranscriptionOptions,
+  TranscriptionProvider
+} from './types'
 
 const BOT_IDENTITY = 'transcription-bot'
 const BOT_NAME = 'Transcription Service'
 
+// Chat topic of LiveKit's client components, so announcements show up without extra code
+const CHAT_TOPIC = 'lk.chat'
+
+// Re-anchor a participant's audio clock if frames fall this far behind wall-clock time
+const CLOCK_RESYNC_MS = 1000
+
+// How long to keep trying to rejoin after the connection drops before giving up
+const REJOIN_TIMEOUT_MS = Number(process.env.BOT_REJOIN_TIMEOUT_MS) || 60000
+const REJOIN_MAX_DELAY_MS = 10000
+
+// Disconnects that mean the bot should stay out: the room ended, the bot was
+// removed, or another replica joined with the bot identity
+const FINAL_DISCONNECT_REASONS = new Set<DisconnectReason>([
+  DisconnectReason.CLIENT_INITIATED,
+  DisconnectReason.DUPLICATE_IDENTITY,
+  DisconnectReason.PARTICIPANT_REMOVED,
+  DisconnectReason.ROOM_DELETED,
+  DisconnectReason.ROOM_CLOSED
+])
+
+/** Where a participant's audio comes from; each source is transcribed separately */
+export type AudioSource = 'microphone' | 'screen_share'
+
 interface ParticipantHandler {
+  /** LiveKit identity of the participant */
+  identity: string
+  /** Speaker id on transcripts: the identity, suffixed for screen-share audio */
   participantId: string
   participantName: string
-  stream: AssemblyAIStream
+  source: AudioSource
+  // Distinguishes this handler's segment ids from an earlier one for the same speaker
+  generation: number
+  stream?: ResilientStream         // live mode
+  recorder?: AudioRecorder         // post-call mode
   audioBuffer: AudioBuffer
   speechDurationMs: number
   lastSpeechAt: number
-  audioStreamAbort?: AbortController
+  // Readers of the tracks feeding this handler, by track SID
+  tracks: Map<string, AbortController>
+  // The track is muted: audio is ignored and the provider session is suspended
+  muted: boolean
+  // Meeting ms at which this participant's audio clock started (set on first frame)
+  clockStartMs?: number
+  // Audio processed so far, VAD-silent chunks included
+  audioClockMs: number
+  // Maps the current provider session's audio offsets onto the meeting clock
+  timeline: AudioTimeline
+  vad: VadStrategy
+  // The bot's logger with the participant bound
+  log: Logger
+}
+
+export interface LiveKitBotOptions {
+  /** Transcription session the bot's events belong to */
+  sessionId: string
+  mode: 'live' | 'post-call'
+  /** Where post-call recordings are written */
+  recordingDir?: string
+  /** Per-room VAD tuning; unset fields use the defaults */
+  vad?: Partial<VadConfig>
+  /** Per-room language, model and vocabulary */
+  transcription?: TranscriptionOptions
+  /** Start of the session when resuming an interrupted one, so meeting times carry on */
+  startedAt?: Date
+  /** Transcribe screen-share audio as its own speaker, or ignore it (default) */
+  screenShareAudio?: 'transcribe' | 'exclude'
+  /** Who is left out of transcription; defaults to getDefaultConsentPolicy() */
+  consent?: ConsentPolicy
+  /** Captions published back into the room; none by default */
+  captions?: CaptionOptions
+}
+
+function toAudioSource(source: TrackSource | undefined): AudioSource {
+  return source === TrackSource.SOURCE_SCREENSHARE_AUDIO ? 'screen_share' : 'microphone'
+}
+
+/**
+ * Key of a participant's handler for an audio source
+ */
+function handlerKey(identity: string, source: AudioSource): string {
+  return source === 'microphone' ? identity : `${identity}:${source}`
+}
+
+/**
+ * Check whether a LiveKit room still exists and has participants.
+ * Joining a room creates it, so check before (re)joining one that may have ended.
+ */
+export async function isLiveKitRoomActive(roomId: string): Promise<boolean> {
+  const livekitUrl = process.env.LIVEKIT_URL
+  const apiKey = process.env.LIVEKIT_API_KEY
+  const apiSecret = process.env.LIVEKIT_API_SECRET
+
+  if (!livekitUrl || !apiKey || !apiSecret) {
+    throw new Error('Missing LIVEKIT_URL, LIVEKIT_API_KEY or LIVEKIT_API_SECRET')
+  }
+
+  // The room service API is HTTP(S) on the same host as the websocket URL
+  const client = new RoomServiceClient(livekitUrl.replace(/^ws/, 'http'), apiKey, apiSecret)
+  const rooms = await client.listRooms([roomId])
+  return rooms.some(room => room.numParticipants > 0)
 }
 
 export class LiveKitBot extends EventEmitter {
   private room: Room | null = null
   private roomId: string
+  // Handlers by handlerKey(): one per participant and audio source
   private participants: Map<string, ParticipantHandler> = new Map()
+  // Handlers being set up, so concurrent track events share one
+  private pendingHandlers: Map<string, Promise<ParticipantHandler | null>> = new Map()
+  private handlersCreated = 0
+  // Whether each participant (by identity) is transcribed, and why not
+  private decisions: Map<string, ConsentDecision> = new Map()
+  // Speaker id -> the participant identity and track its captions belong to
+  private speakerTracks: Map<string, { identity: string; trackSid: string }> = new Map()
+  // Participants told that transcription is active
+  private announced: Set<string> = new Set()
   private startedAt: Date
+  // Distinguishes segment ids of a resumed session from the turns before it
+  private joinId: string
+  private rejoining = false
+  private leaving = false
   private totalSpeechDurationMs: number = 0
+  private provider: TranscriptionProvider
+  private options: LiveKitBotOptions
+  private log: Logger
+  private recordings: ParticipantRecording[] = []
+  // Display names seen in the room, added to the provider vocabulary
+  private participantNames: Set<string> = new Set()
 
-  constructor(roomId: string) {
+  constructor(
+    roomId: string,
+    provider: TranscriptionProvider,
+    options: LiveKitBotOptions
+  ) {
     super()
     this.roomId = roomId
-    this.startedAt = new Date()
+    this.provider = provider
+    this.options = options
+    this.log = createLogger('LiveKitBot', { roomId, sessionId: options.sessionId })
+    this.startedAt = options.startedAt ?? new Date()
+    this.joinId = Date.now().toString(36)
+  }
+
+  /**
+   * Whether the bot sends anything into the room (captions or announcements)
+   */
+  private publishesToRoom(): boolean {
+    const captions = this.options.captions
+    return !!captions && (captions.transcriptionEvents || captions.dataTopic !== null || captions.announcement !== null)
+  }
+
+  /**
+   * Publish a transcript back into the room: as a LiveKit transcription event
+   * on the speaker's track, and/or as a JSON data message. Called with the
+   * redacted event; failures are logged and don't affect transcription.
+   */
+  publishCaption(event: TranscriptEvent): void {
+    const captions = this.options.captions
+    const participant = this.room?.localParticipant
+    if (!captions || !participant) return
+
+    const speaker = this.speakerTracks.get(event.participantId)
+    // Gap and consent markers aren't speech on a track
+    if (captions.transcriptionEvents && speaker && !event.gap && !event.consent) {
+      const language = this.options.transcription?.language
+      participant.publishTranscription({
+        participantIdentity: speaker.identity,
+        trackSid: speaker.trackSid,
+        segments: [{
+          id: event.segmentId,
+          text: event.text,
+          startTime: BigInt(Math.round(event.startMs)),
+          endTime: BigInt(Math.round(event.endMs)),
+          language: language && language !== 'auto' ? language : '',
+          final: event.isFinal
+        }]
+      }).catch(error => {
+        this.log.error('Could not publish transcription', { participantId: event.participantId, error })
+      })
+    }
+
+    if (captions.dataTopic) {
+      const payload = JSON.stringify({ type: 'transcript', ...toTranscriptPayload(event) })
+      // Interims are superseded quickly, so they can be lost; finals must arrive
+      participant.publishData(new TextEncoder().encode(payload), {
+        reliable: event.isFinal,
+        topic: captions.dataTopic
+      }).catch(error => {
+        this.log.error('Could not publish transcript data', { participantId: event.participantId, error })
+      })
+    }
+  }
+
+  /**
+   * Tell a participant, once, that the meeting is being transcribed
+   */
+  private announceTo(participant: RemoteParticipant): void {
+    const announcement = this.options.captions?.announcement
+    const localParticipant = this.room?.localParticipant
+    if (!announcement || !localParticipant || this.announced.has(participant.identity)) return
+
+    this.announced.add(participant.identity)
+    localParticipant.sendText(announcement, {
+      topic: CHAT_TOPIC,
+      destinationIdentities: [participant.identity]
+    }).catch(error => {
+      this.announced.delete(participant.identity)
+      this.log.error('Could not announce transcription', { participantId: participant.identity, error })
+    })
   }
 
   /**
@@ -60,17 +264,17 @@ export class LiveKitBot extends EventEmitter {
       room: this.roomId,
       roomJoin: true,
       canSubscribe: true,
-      canPublish: false, // Bot doesn't publish anything
-      canPublishData: false,
+      canPublish: false, // Bot doesn't publish media
+      canPublishData: this.publishesToRoom(),
     })
 
     return await token.toJwt()
   }
 
   /**
-   * Join the LiveKit room with retry logic
+   * Connect to the LiveKit room with retry logic
    */
-  async join(): Promise<void> {
+  private async connect(): Promise<void> {
     const livekitUrl = process.env.LIVEKIT_URL
     if (!livekitUrl) {
       throw new Error('Missing LIVEKIT_URL')
@@ -80,25 +284,29 @@ export class LiveKitBot extends EventEmitter {
     const maxRetries = 3
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      this.room = new Room()
+      if (this.leaving) {
+        throw new Error(`Left room ${this.roomId} while connecting`)
+      }
+
+      // Kept locally: leave() may drop this.room while the connect is in flight
+      const room = new Room()
+      this.room = room
       this.setupRoomEvents()
 
-      console.log(`[LiveKitBot] Joining room ${this.roomId} (attempt ${attempt}/${maxRetries})...`)
+      this.log.info('Joining room', { attempt, maxRetries })
 
       try {
-        await this.room.connect(livekitUrl, token, {
+        await room.connect(livekitUrl, token, {
           autoSubscribe: true,
           dynacast: false,
         })
-
-        console.log(`[LiveKitBot] Connected to room ${this.roomId}`)
-        break
       } catch (error) {
-        console.error(`[LiveKitBot] Connection attempt ${attempt} failed:`, error)
+        this.log.error('Connection attempt failed', { attempt, error })
 
-        // Clean up failed room
-        try { await this.room.disconnect() } catch { /* ignore */ }
-        this.room = null
+        // Clean up failed room (without its events, so this isn't taken for a drop)
+        room.removeAllListeners()
+        try { await room.disconnect() } catch { /* ignore */ }
+        if (this.room === room) this.room = null
 
         if (attempt === maxRetries) {
           throw new Error(`Failed to connect to room ${this.roomId} after ${maxRetries} attempts`)
@@ -106,24 +314,46 @@ export class LiveKitBot extends EventEmitter {
 
         // Wait before retry with exponential backoff
         const delay = attempt * 2000
-        console.log(`[LiveKitBot] Retrying in ${delay}ms...`)
+        this.log.info('Retrying connection', { delayMs: delay })
         await new Promise(resolve => setTimeout(resolve, delay))
+        continue
+      }
+
+      // leave() was called while connecting, so it couldn't disconnect this room
+      if (this.leaving) {
+        room.removeAllListeners()
+        try { await room.disconnect() } catch { /* ignore */ }
+        if (this.room === room) this.room = null
+        throw new Error(`Left room ${this.roomId} while connecting`)
       }
+
+      this.log.info('Connected to room')
+      break
     }
 
     if (!this.room) {
       throw new Error(`Room connection lost for ${this.roomId}`)
     }
+  }
 
-    console.log(`[LiveKitBot] Joined room ${this.roomId} (connected: ${this.room.isConnected})`)
+  /**
+   * Join the LiveKit room and start transcribing everyone in it
+   */
+  async join(): Promise<void> {
+    await this.connect()
+    if (!this.room) {
+      throw new Error(`Room connection lost for ${this.roomId}`)
+    }
+    this.log.info('Joined room', { connected: this.room.isConnected, participants: this.room.remoteParticipants.size })
 
-    // Log room state
-    const participantCount = this.room.remoteParticipants.size
-    console.log(`[LiveKitBot] Found ${participantCount} existing participants`)
+    // Collect names first so every participant's stream knows all of them
+    for (const participant of this.room.remoteParticipants.values()) {
+      this.addParticipantName(participant)
+    }
 
     // Handle existing participants
     for (const participant of this.room.remoteParticipants.values()) {
-      console.log(`[LiveKitBot] Processing existing participant: ${participant.identity} (${participant.name})`)
+      this.log.debug('Processing existing participant', { participantId: participant.identity, participantName: participant.name })
       await this.handleParticipantJoined(participant)
     }
   }
@@ -135,40 +365,238 @@ export class LiveKitBot extends EventEmitter {
     if (!this.room) return
 
     this.room.on(RoomEvent.ParticipantConnected, async (participant: RemoteParticipant) => {
-      console.log(`[LiveKitBot] Participant joined: ${participant.name || participant.identity}`)
+      this.log.info('Participant joined', { participantId: participant.identity })
       await this.handleParticipantJoined(participant)
     })
 
     this.room.on(RoomEvent.ParticipantDisconnected, async (participant: RemoteParticipant) => {
-      console.log(`[LiveKitBot] Participant left: ${participant.name || participant.identity}`)
+      this.log.info('Participant left', { participantId: participant.identity })
       await this.handleParticipantLeft(participant)
     })
 
+    this.room.on(RoomEvent.ParticipantMetadataChanged, (_metadata: string | undefined, participant: Participant) => {
+      this.handleConsentChanged(participant)
+    })
+
+    this.room.on(RoomEvent.ParticipantAttributesChanged, (_changed: Record<string, string>, participant: Participant) => {
+      this.handleConsentChanged(participant)
+    })
+
     this.room.on(RoomEvent.TrackSubscribed, (
       track: RemoteTrack,
-      _publication: RemoteTrackPublication,
+      publication: RemoteTrackPublication,
       participant: RemoteParticipant
     ) => {
       if (track.kind === TrackKind.KIND_AUDIO) {
-        console.log(`[LiveKitBot] Subscribed to audio track from ${participant.name || participant.identity}`)
-        this.handleAudioTrack(track, participant)
+        this.log.info('Subscribed to audio track', { participantId: participant.identity, source: toAudioSource(publication.source), trackSid: publication.sid })
+        this.handleAudioTrack(track, publication, participant)
       }
     })
 
     this.room.on(RoomEvent.TrackUnsubscribed, (
       track: RemoteTrack,
-      _publication: RemoteTrackPublication,
+      publication: RemoteTrackPublication,
       participant: RemoteParticipant
     ) => {
       if (track.kind === TrackKind.KIND_AUDIO) {
-        console.log(`[LiveKitBot] Unsubscribed from audio track from ${participant.name || participant.identity}`)
+        this.log.info('Unsubscribed from audio track', { participantId: participant.identity, source: toAudioSource(publication.source), trackSid: publication.sid })
+        this.handleAudioTrackEnded(publication, participant)
+      }
+    })
+
+    this.room.on(RoomEvent.TrackMuted, (publication: TrackPublication, participant: Participant) => {
+      if (publication.kind === TrackKind.KIND_AUDIO) {
+        this.setTrackMuted(publication, participant, true)
       }
     })
 
-    this.room.on(RoomEvent.Disconnected, () => {
-      console.log(`[LiveKitBot] Disconnected from room ${this.roomId}`)
-      this.emit('disconnected')
+    this.room.on(RoomEvent.TrackUnmuted, (publication: TrackPublication, participant: Participant) => {
+      if (publication.kind === TrackKind.KIND_AUDIO) {
+        this.setTrackMuted(publication, participant, false)
+      }
     })
+
+    this.room.on(RoomEvent.Disconnected, (reason: DisconnectReason) => {
+      // Our own leave
+      if (this.leaving) return
+
+      this.log.info('Disconnected from room', { reason: DisconnectReason[reason] })
+      if (FINAL_DISCONNECT_REASONS.has(reason)) {
+        this.emit('disconnected')
+      } else {
+        this.rejoin()
+      }
+    })
+  }
+
+  /**
+   * Rejoin after the connection dropped, keeping the session and participant
+   * handlers. Emits a gap marker covering the outage once back in the room,
+   * or 'disconnected' if rejoining keeps failing for REJOIN_TIMEOUT_MS.
+   */
+  private async rejoin(): Promise<void> {
+    if (this.rejoining) return
+    this.rejoining = true
+
+    const droppedAt = Date.now()
+    this.room?.removeAllListeners()
+    this.room = null
+    this.emit('reconnecting')
+
+    try {
+      for (let round = 1; !this.leaving; round++) {
+        try {
+          // Joining creates the room, so don't bring back one whose meeting has ended
+          if (!(await isLiveKitRoomActive(this.roomId))) {
+            this.log.info('Room ended while disconnected, not rejoining')
+            this.emit('disconnected')
+            return
+          }
+          if (this.leaving) break
+
+          await this.connect()
+          break
+        } catch (error) {
+          if (this.leaving) break
+
+          const remainingMs = REJOIN_TIMEOUT_MS - (Date.now() - droppedAt)
+          if (remainingMs <= 0) {
+            this.log.error('Could not rejoin room, giving up', { timeoutMs: REJOIN_TIMEOUT_MS, error })
+            this.emit('disconnected')
+            return
+          }
+
+          const delay = Math.min(remainingMs, REJOIN_MAX_DELAY_MS, 1000 * Math.pow(2, round - 1))
+          this.log.info('Rejoin failed, retrying', { delayMs: delay })
+          await new Promise(resolve => setTimeout(resolve, delay))
+        }
+      }
+
+      const room = this.room as Room | null
+      if (this.leaving || !room) {
+        // leave() was called while we were reconnecting
+        if (room) await room.disconnect()
+        this.room = null
+        return
+      }
+
+      this.log.info('Rejoined room', { outageMs: Date.now() - droppedAt })
+
+      // Participants who left during the outage never got a disconnect event
+      for (const [key, handler] of this.participants) {
+        if (!room.remoteParticipants.has(handler.identity)) {
+          await this.closeHandler(handler)
+          this.participants.delete(key)
+          handler.log.info('Participant left while disconnected')
+        }
+      }
+      for (const identity of this.decisions.keys()) {
+        if (!room.remoteParticipants.has(identity)) this.decisions.delete(identity)
+      }
+
+      for (const participant of room.remoteParticipants.values()) {
+        this.addParticipantName(participant)
+      }
+      for (const participant of room.remoteParticipants.values()) {
+        await this.handleParticipantJoined(participant)
+      }
+
+      this.emitGap(droppedAt - this.startedAt.getTime(), Date.now() - this.startedAt.getTime())
+      this.emit('reconnected')
+    } finally {
+      this.rejoining = false
+    }
+  }
+
+  /**
+   * Mark a stretch of the meeting the bot could not hear
+   */
+  private emitGap(startMs: number, endMs: number): void {
+    const event: TranscriptEvent = {
+      roomId: this.roomId,
+      sessionId: this.options.sessionId,
+      participantId: BOT_IDENTITY,
+      participantName: BOT_NAME,
+      segmentId: `${this.options.sessionId}:${this.joinId}:gap:${Math.round(startMs)}`,
+      text: '[Transcription interrupted]',
+      isFinal: true,
+      confidence: 0,
+      timestamp: new Date(this.startedAt.getTime() + startMs),
+      startMs,
+      endMs,
+      words: [],
+      gap: true
+    }
+
+    this.emit('transcript', event)
+  }
+
+  /**
+   * Record a participant opting out of or back into transcription
+   */
+  private emitConsentChange(participant: Participant, consent: 'granted' | 'declined'): void {
+    const atMs = Date.now() - this.startedAt.getTime()
+    const name = participant.name || participant.identity
+    const event: TranscriptEvent = {
+      roomId: this.roomId,
+      sessionId: this.options.sessionId,
+      participantId: participant.identity,
+      participantName: name,
+      segmentId: `${this.options.sessionId}:${this.joinId}:consent:${participant.identity}:${Math.round(atMs)}`,
+      text: consent === 'declined' ? `[${name} opted out of transcription]` : `[${name} opted in to transcription]`,
+      isFinal: true,
+      confidence: 0,
+      timestamp: new Date(),
+      startMs: atMs,
+      endMs: atMs,
+      words: [],
+      consent
+    }
+
+    this.emit('transcript', event)
+  }
+
+  /**
+   * Decide whether a participant is transcribed under the room's consent policy.
+   * Opting out or back in is recorded in the transcript; closing or setting up
+   * the participant's handlers is left to the caller.
+   */
+  private updateConsent(participant: Participant): ConsentDecision {
+    const previous = this.decisions.get(participant.identity)
+    const decision = evaluateConsent(participant, this.options.consent ?? getDefaultConsentPolicy())
+    this.decisions.set(participant.identity, decision)
+
+    if (previous?.transcribe === decision.transcribe) return decision
+
+    const byConsent = (reason: ConsentDecision['reason']) => reason === 'declined' || reason === 'no_opt_in'
+
+    if (!decision.transcribe) {
+      this.log.info('Not transcribing participant', { participantId: participant.identity, reason: decision.reason })
+      if (byConsent(decision.reason)) this.emitConsentChange(participant, 'declined')
+    } else if (previous) {
+      this.log.info('Transcribing participant again', { participantId: participant.identity, consent: decision.consent })
+      if (byConsent(previous.reason)) this.emitConsentChange(participant, 'granted')
+    }
+
+    return decision
+  }
+
+  /**
+   * A participant's attributes or metadata changed: stop their audio right away
+   * if they no longer want to be transcribed, or start it again if they opted in
+   */
+  private async handleConsentChanged(participant: Participant): Promise<void> {
+    if (!(participant instanceof RemoteParticipant) || participant.identity === BOT_IDENTITY) return
+
+    const wasTranscribed = this.decisions.get(participant.identity)?.transcribe
+    const decision = this.updateConsent(participant)
+    if (decision.transcribe === wasTranscribed) return
+
+    if (decision.transcribe) {
+      await this.handleParticipantJoined(participant)
+    } else {
+      await this.closeParticipant(participant.identity)
+    }
   }
 
   /**
@@ -178,117 +606,290 @@ export class LiveKitBot extends EventEmitter {
     // Skip if this is another bot
     if (participant.identity === BOT_IDENTITY) return
 
-    const participantId = participant.identity
-    const participantName = participant.name || participant.identity
+    this.addParticipantName(participant)
+    this.announceTo(participant)
 
-    // Create AssemblyAI stream for this participant
-    const stream = new AssemblyAIStream(participantId, participantName)
+    // Excluded, or declined (possibly while the bot was rejoining the room)
+    if (!this.updateConsent(participant).transcribe) {
+      await this.closeParticipant(participant.identity)
+      return
+    }
+
+    // Microphone transcription is set up on join; screen-share audio when it's published.
+    // Back in the room after a dropped connection, the existing handler and its stream are kept.
+    await this.getHandler(participant, 'microphone')
+    this.attachAudioTracks(participant)
+  }
+
+  /**
+   * Get or set up the handler for a participant's audio source
+   */
+  private getHandler(participant: RemoteParticipant, source: AudioSource): Promise<ParticipantHandler | null> {
+    const key = handlerKey(participant.identity, source)
+    const existing = this.participants.get(key)
+    if (existing) return Promise.resolve(existing)
+
+    let pending = this.pendingHandlers.get(key)
+    if (!pending) {
+      pending = this.createHandler(participant, source).finally(() => {
+        this.pendingHandlers.delete(key)
+      })
+      this.pendingHandlers.set(key, pending)
+    }
+    return pending
+  }
+
+  private async createHandler(participant: RemoteParticipant, source: AudioSource): Promise<ParticipantHandler | null> {
+    const identity = participant.identity
+    const name = participant.name || participant.identity
+    const participantId = handlerKey(identity, source)
+    const participantName = source === 'microphone' ? name : `${name} (screen share)`
+
+    try {
+      const handler: ParticipantHandler = {
+        identity,
+        participantId,
+        participantName,
+        source,
+        generation: this.handlersCreated++,
+        audioBuffer: new AudioBuffer(4800), // 300ms chunks at 16kHz
+        speechDurationMs: 0,
+        lastSpeechAt: 0,
+        tracks: new Map(),
+        muted: false,
+        audioClockMs: 0,
+        timeline: new AudioTimeline(),
+        vad: createVad(this.options.vad),
+        log: this.log.child({ participantId })
+      }
+
+      if (this.options.mode === 'post-call') {
+        // Record now, transcribe after the meeting - no streaming session
+        const recorder = new AudioRecorder(participantId, participantName, this.getRecordingDir())
+        await recorder.open()
+        handler.recorder = recorder
+      } else {
+        handler.stream = await this.createStream(handler)
+      }
+
+      // Opted out while the stream was opening
+      if (!this.decisions.get(identity)?.transcribe) {
+        await this.closeHandler(handler)
+        return null
+      }
+
+      this.participants.set(participantId, handler)
+      handler.log.info('Set up transcription', { mode: this.options.mode })
+      return handler
+    } catch (error) {
+      this.log.error('Failed to set up transcription', { participantId, error })
+      return null
+    }
+  }
+
+  /**
+   * Handle any audio tracks a participant already has
+   */
+  private attachAudioTracks(participant: RemoteParticipant): void {
+    for (const publication of participant.trackPublications.values()) {
+      if (publication.kind === TrackKind.KIND_AUDIO && publication.track) {
+        this.log.info('Found existing audio track', { participantId: participant.identity, source: toAudioSource(publication.source), trackSid: publication.sid })
+        this.handleAudioTrack(publication.track as RemoteTrack, publication, participant)
+      }
+    }
+  }
+
+  /**
+   * Remember a participant's display name for the vocabulary
+   */
+  private addParticipantName(participant: RemoteParticipant): void {
+    if (participant.identity === BOT_IDENTITY || !participant.name) return
+    this.participantNames.add(participant.name)
+  }
+
+  /**
+   * Room transcription options with participant names appended to the key terms.
+   * Room terms come first so they win if the provider caps the list.
+   */
+  getTranscriptionOptions(): TranscriptionOptions {
+    const options = this.options.transcription ?? {}
+    return {
+      ...options,
+      keyterms: [...(options.keyterms ?? []), ...this.participantNames]
+    }
+  }
+
+  /**
+   * Create and connect a streaming transcription session for a participant.
+   * The resilient wrapper reconnects and rolls over provider sessions itself,
+   * keeping offsets continuous, so the timeline is never reset.
+   */
+  private async createStream(handler: ParticipantHandler): Promise<ResilientStream> {
+    const { participantId, participantName, timeline } = handler
+    // Each provider session picks up participant names seen so far
+    const stream = new ResilientStream(
+      this.provider.name,
+      participantName,
+      () => this.provider.createStream(participantId, participantName, this.getTranscriptionOptions()),
+      { roomId: this.roomId, sessionId: this.options.sessionId, participantId }
+    )
 
     stream.on('transcript', (result: TranscriptResult) => {
+      // Without provider timings, fall back to the end of the audio sent so far
+      const latestMs = timeline.toMeetingMs(timeline.getLengthMs())
+      const startMs = result.startMs !== undefined ? timeline.toMeetingMs(result.startMs) : latestMs
+      const endMs = result.endMs !== undefined ? timeline.toMeetingMs(result.endMs) : latestMs
+
+      if (result.isFinal && result.endMs !== undefined) {
+        const latencyMs = Date.now() - (this.startedAt.getTime() + endMs)
+        if (latencyMs >= 0) turnLatency.observe({ provider: this.provider.name }, latencyMs / 1000)
+      }
+
       const event: TranscriptEvent = {
         roomId: this.roomId,
+        sessionId: this.options.sessionId,
         participantId,
         participantName,
+        segmentId: `${this.options.sessionId}:${this.joinId}:${participantId}:${handler.generation}:${result.turnId}`,
         text: result.text,
         isFinal: result.isFinal,
         confidence: result.confidence,
-        timestamp: new Date()
+        timestamp: new Date(this.startedAt.getTime() + startMs),
+        startMs,
+        endMs,
+        words: result.words.map(word => ({
+          ...word,
+          startMs: timeline.toMeetingMs(word.startMs),
+          endMs: timeline.toMeetingMs(word.endMs)
+        }))
       }
 
       this.emit('transcript', event)
     })
 
     stream.on('error', (error) => {
-      console.error(`[LiveKitBot] AssemblyAI error for ${participantName}:`, error)
+      handler.log.error('Provider error', { provider: this.provider.name, error })
     })
 
-    stream.on('closed', async () => {
-      console.log(`[LiveKitBot] AssemblyAI closed for ${participantName}, will reconnect on next audio`)
-      // Mark stream as inactive, will reconnect when audio is received
-      const handler = this.participants.get(participantId)
-      if (handler) {
-        handler.stream = stream // Keep reference for potential reconnection
-      }
+    stream.on('closed', () => {
+      handler.log.info('Provider stream closed', { provider: this.provider.name, ...stream.getStats() })
     })
 
-    try {
-      await stream.connect()
-
-      const handler: ParticipantHandler = {
-        participantId,
-        participantName,
-        stream,
-        audioBuffer: new AudioBuffer(4800), // 300ms chunks at 16kHz
-        speechDurationMs: 0,
-        lastSpeechAt: 0
-      }
+    await stream.connect()
+    return stream
+  }
 
-      this.participants.set(participantId, handler)
-      console.log(`[LiveKitBot] Set up transcription for ${participantName}`)
+  /**
+   * Directory for post-call recordings
+   */
+  private getRecordingDir(): string {
+    return this.options.recordingDir ?? path.join(os.tmpdir(), 'meetingburner-recordings', this.roomId)
+  }
 
-      // Handle any existing audio tracks
-      for (const publication of participant.trackPublications.values()) {
-        if (publication.kind === TrackKind.KIND_AUDIO && publication.track) {
-          console.log(`[LiveKitBot] Found existing audio track from ${participantName}`)
-          this.handleAudioTrack(publication.track as RemoteTrack, participant)
-        }
-      }
-    } catch (error) {
-      console.error(`[LiveKitBot] Failed to set up transcription for ${participantName}:`, error)
+  /**
+   * Stop a participant's audio and close their stream or recording
+   */
+  private async closeHandler(handler: ParticipantHandler): Promise<void> {
+    for (const reader of handler.tracks.values()) {
+      reader.abort()
+    }
+    handler.tracks.clear()
+    await handler.stream?.close()
+    if (handler.recorder) {
+      this.recordings.push(await handler.recorder.close())
     }
+    this.totalSpeechDurationMs += handler.speechDurationMs
   }
 
   /**
    * Handle a participant leaving
    */
   private async handleParticipantLeft(participant: RemoteParticipant): Promise<void> {
-    const participantId = participant.identity
-    const handler = this.participants.get(participantId)
+    await this.closeParticipant(participant.identity)
+    this.decisions.delete(participant.identity)
+  }
 
-    if (handler) {
-      // Abort the audio stream processing
-      handler.audioStreamAbort?.abort()
-      await handler.stream.close()
-      this.totalSpeechDurationMs += handler.speechDurationMs
-      this.participants.delete(participantId)
-      console.log(`[LiveKitBot] Cleaned up transcription for ${handler.participantName}`)
+  /**
+   * Stop all of a participant's audio sources. Handlers are removed before
+   * closing so no further audio reaches their streams.
+   */
+  private async closeParticipant(identity: string): Promise<void> {
+    const handlers = Array.from(this.participants.entries()).filter(([, handler]) => handler.identity === identity)
+    for (const [key] of handlers) {
+      this.participants.delete(key)
     }
+
+    await Promise.all(handlers.map(async ([, handler]) => {
+      await this.closeHandler(handler)
+      handler.log.info('Cleaned up transcription')
+    }))
   }
 
   /**
    * Handle an audio track - this is where the magic happens
    */
-  private async handleAudioTrack(track: RemoteTrack, participant: RemoteParticipant): Promise<void> {
-    const participantId = participant.identity
-    const handler = this.participants.get(participantId)
+  private async handleAudioTrack(
+    track: RemoteTrack,
+    publication: TrackPublication,
+    participant: RemoteParticipant
+  ): Promise<void> {
+    // Track events can arrive before the participant's join has been handled
+    const decision = this.decisions.get(participant.identity) ?? this.updateConsent(participant)
+    if (!decision.transcribe) return
 
+    const source = toAudioSource(publication.source)
+    if (source === 'screen_share' && this.options.screenShareAudio !== 'transcribe') {
+      this.log.info('Ignoring screen-share audio', { participantId: participant.identity })
+      return
+    }
+
+    const handler = await this.getHandler(participant, source)
     if (!handler) {
-      console.warn(`[LiveKitBot] No handler for participant ${participantId}`)
+      this.log.warn('No handler for participant', { participantId: participant.identity })
       return
     }
 
-    // Create an AbortController to stop processing when participant leaves
+    const trackSid = publication.sid ?? track.sid ?? ''
+
+    // One reader per track: a track attached again (e.g. after rejoining) replaces
+    // its reader, and a newer track from the same source supersedes older ones
+    for (const [sid, reader] of handler.tracks) {
+      if (sid !== trackSid) {
+        handler.log.info('New track replaces an older one', { trackSid, replacedTrackSid: sid })
+      }
+      reader.abort()
+    }
+    handler.tracks.clear()
+
     const abortController = new AbortController()
-    handler.audioStreamAbort = abortController
+    handler.tracks.set(trackSid, abortController)
+    this.speakerTracks.set(handler.participantId, { identity: handler.identity, trackSid })
+    handler.muted = publication.muted ?? false
 
     try {
       // Create AudioStream from the track to receive audio frames
       // AudioStream extends ReadableStream<AudioFrame>
       const audioStream = new AudioStream(track, 16000, 1) // 16kHz mono for AssemblyAI
+      const reader = audioStream.getReader()
+      // Cancelling ends a pending read, so the loop stops even if no more frames arrive
+      abortController.signal.addEventListener('abort', () => {
+        reader.cancel().catch(() => { /* stream already closed */ })
+      })
 
-      console.log(`[LiveKitBot] Started audio stream for ${handler.participantName}`)
+      handler.log.info('Started audio stream', { trackSid })
 
       let frameCount = 0
-      // Process audio frames using async iteration
-      for await (const audioFrame of audioStream) {
+      while (true) {
+        const { done, value: audioFrame } = await reader.read()
         // Check if we should stop processing
-        if (abortController.signal.aborted) {
+        if (done || abortController.signal.aborted) {
           break
         }
 
         frameCount++
+        audioFramesReceived.inc({ room: this.roomId })
         if (frameCount % 100 === 1) {
-          console.log(`[LiveKitBot] Received audio frame ${frameCount} from ${handler.participantName}, samples: ${audioFrame.data.length}`)
+          handler.log.debug('Received audio frame', { trackSid, frameCount, samples: audioFrame.data.length })
         }
 
         // AudioFrame has a data property with Int16Array audio samples
@@ -296,15 +897,64 @@ export class LiveKitBot extends EventEmitter {
       }
     } catch (error) {
       if (error instanceof Error && error.name !== 'AbortError') {
-        console.error(`[LiveKitBot] Error processing audio for ${handler.participantName}:`, error)
+        handler.log.error('Error processing audio', { trackSid, error })
+      }
+    } finally {
+      if (handler.tracks.get(trackSid) === abortController) {
+        handler.tracks.delete(trackSid)
       }
     }
   }
 
   /**
-   * Process an audio frame through VAD and send to AssemblyAI if speech detected
+   * Stop reading an unsubscribed track. Screen-share transcription ends with
+   * its track; a participant's microphone handler stays for their next track.
+   */
+  private async handleAudioTrackEnded(publication: TrackPublication, participant: RemoteParticipant): Promise<void> {
+    const source = toAudioSource(publication.source)
+    const key = handlerKey(participant.identity, source)
+    const handler = this.participants.get(key)
+    if (!handler || !publication.sid) return
+
+    handler.tracks.get(publication.sid)?.abort()
+    handler.tracks.delete(publication.sid)
+    handler.timeline.markGap()
+    handler.recorder?.markGap()
+
+    if (source === 'screen_share' && handler.tracks.size === 0) {
+      await this.closeHandler(handler)
+      this.participants.delete(key)
+      handler.log.info('Stopped screen-share transcription')
+    }
+  }
+
+  /**
+   * Pause a muted track's audio and its provider session (so it isn't billed);
+   * on unmute, reopen the session ahead of speech
+   */
+  private setTrackMuted(publication: TrackPublication, participant: Participant, muted: boolean): void {
+    const handler = this.participants.get(handlerKey(participant.identity, toAudioSource(publication.source)))
+    if (!handler || handler.muted === muted) return
+
+    handler.muted = muted
+    handler.log.info(muted ? 'Track muted' : 'Track unmuted')
+
+    if (muted) {
+      handler.timeline.markGap()
+      handler.recorder?.markGap()
+      handler.stream?.suspend()
+    } else {
+      handler.stream?.connect()
+    }
+  }
+
+  /**
+   * Process an audio frame through VAD and send to the provider if speech detected
    */
   private async processAudioFrame(handler: ParticipantHandler, audioData: Int16Array, sampleRate: number): Promise<void> {
+    // Muted tracks may still deliver silent frames; they're neither sent nor billed
+    if (handler.muted) return
+
     // Convert Int16 to Float32 for VAD analysis
     const float32 = new Float32Array(audioData.length)
     for (let i = 0; i < audioData.length; i++) {
@@ -315,43 +965,83 @@ export class LiveKitBot extends EventEmitter {
     const chunks = handler.audioBuffer.addSamples(float32)
 
     for (const chunk of chunks) {
-      // Check VAD - only send if speech detected
-      // Using very low threshold (0.001) to catch quiet audio
-      const hasSpeech = detectVoiceActivity(chunk, 0.001)
-
-      if (hasSpeech) {
-        // Reconnect AssemblyAI if connection was closed due to idle
-        if (!handler.stream.isActive()) {
-          console.log(`[LiveKitBot] Reconnecting AssemblyAI for ${handler.participantName}`)
-          try {
-            await handler.stream.connect()
-          } catch (error) {
-            console.error(`[LiveKitBot] Failed to reconnect AssemblyAI for ${handler.participantName}:`, error)
-            return // Skip this chunk if reconnection failed
-          }
-        }
+      const chunkDurationMs = (chunk.length / sampleRate) * 1000
+      const chunkStartMs = this.advanceAudioClock(handler, chunkDurationMs)
+
+      // Check VAD - only send if speech detected (plus pre-roll and hangover)
+      const vadResult = handler.vad.process(chunk, chunkDurationMs)
+      vadAudioSeconds.inc({ room: this.roomId, class: vadResult.isSpeech ? 'speech' : 'silence' }, chunkDurationMs / 1000)
+
+      if (!vadResult.isSpeech) {
+        handler.recorder?.markGap()
+        handler.timeline.markGap()
+        continue
+      }
 
-        // Convert back to Int16 for AssemblyAI
-        const int16Chunk = float32ToInt16(chunk)
-        handler.stream.sendAudio(int16Chunk)
+      // Pre-roll chunks precede the current one on the audio clock
+      const sendChunks = vadResult.chunks.map((audio, index) => ({
+        audio: float32ToInt16(audio),
+        startMs: chunkStartMs - (vadResult.chunks.length - 1 - index) * chunkDurationMs
+      }))
 
-        // Track speech duration for billing
-        const chunkDurationMs = (chunk.length / sampleRate) * 1000
-        handler.speechDurationMs += chunkDurationMs
-        handler.lastSpeechAt = Date.now()
+      const activity: SpeechActivity = {
+        participantId: handler.participantId,
+        participantName: handler.participantName,
+        startMs: sendChunks[0].startMs,
+        endMs: chunkStartMs + chunkDurationMs
+      }
+      this.emit('speech', activity)
+
+      if (handler.recorder) {
+        for (const { audio, startMs } of sendChunks) {
+          handler.recorder.write(audio, startMs)
+        }
+      } else if (handler.stream) {
+        // Buffered by the stream while its provider session reconnects
+        for (const { audio, startMs } of sendChunks) {
+          handler.timeline.append(chunkDurationMs, startMs)
+          handler.stream.sendAudio(audio)
+        }
       }
+
+      // Track speech duration for billing
+      handler.speechDurationMs += chunkDurationMs * sendChunks.length
+      handler.lastSpeechAt = Date.now()
     }
   }
 
+  /**
+   * Advance a participant's audio clock by one chunk and return the
+   * meeting-relative time the chunk started. The clock counts audio, not
+   * wall time, but is pulled forward if frames stop arriving for a while
+   * (e.g. the track was muted).
+   */
+  private advanceAudioClock(handler: ParticipantHandler, chunkDurationMs: number): number {
+    const wallStartMs = Date.now() - this.startedAt.getTime() - chunkDurationMs
+
+    if (handler.clockStartMs === undefined) {
+      handler.clockStartMs = wallStartMs
+    }
+
+    let chunkStartMs = handler.clockStartMs + handler.audioClockMs
+    if (wallStartMs - chunkStartMs > CLOCK_RESYNC_MS) {
+      handler.clockStartMs += wallStartMs - chunkStartMs
+      chunkStartMs = wallStartMs
+    }
+
+    handler.audioClockMs += chunkDurationMs
+    return chunkStartMs
+  }
+
   /**
    * Leave the room and clean up
    */
-  async leave(): Promise<{ durationMs: number; speechDurationMs: number }> {
-    // Close all participant streams
+  async leave(): Promise<{ durationMs: number; speechDurationMs: number; recordings: ParticipantRecording[] }> {
+    this.leaving = true
+
+    // Close all participant streams and recordings
     for (const handler of this.participants.values()) {
-      handler.audioStreamAbort?.abort()
-      await handler.stream.close()
-      this.totalSpeechDurationMs += handler.speechDurationMs
+      await this.closeHandler(handler)
     }
     this.participants.clear()
 
@@ -366,7 +1056,7 @@ export class LiveKitBot extends EventEmitter {
 
     const durationMs = Date.now() - this.startedAt.getTime()
 
-    console.log(`[LiveKitBot] Left room ${this.roomId}:`, {
+    this.log.info('Left room', {
       duration: `${Math.round(durationMs / 60000)}min`,
       speechDuration: `${Math.round(this.totalSpeechDurationMs / 60000)}min`,
       vadSavings: `${Math.round((1 - this.totalSpeechDurationMs / durationMs) * 100)}%`
@@ -374,10 +1064,39 @@ export class LiveKitBot extends EventEmitter {
 
     return {
       durationMs,
-      speechDurationMs: this.totalSpeechDurationMs
+      speechDurationMs: this.totalSpeechDurationMs,
+      recordings: this.recordings
     }
   }
 
+  /**
+   * Provider connection stats per live participant stream
+   */
+  getStreamStats(): Array<{ participantId: string; participantName: string; source: AudioSource } & StreamStats> {
+    return Array.from(this.participants.values())
+      .filter(handler => handler.stream)
+      .map(handler => ({
+        participantId: handler.participantId,
+        participantName: handler.participantName,
+        source: handler.source,
+        ...handler.stream!.getStats()
+      }))
+  }
+
+  /**
+   * Participants with at least one audio source being transcribed
+   */
+  getParticipantCount(): number {
+    return new Set(Array.from(this.participants.values()).map(handler => handler.identity)).size
+  }
+
+  /**
+   * When the bot started; meeting-relative times are measured from here
+   */
+  getStartedAt(): Date {
+    return this.startedAt
+  }
+
   /**
    * Get room ID
    */
@@ -0,0 +1,150 @@
+/**
+ * Logger
+ *
+ * Leveled logging as JSON lines: one object per entry with the time, level,
+ * module, message and any bound context (roomId, sessionId, participantId,
+ * requestId). LOG_FORMAT=pretty prints readable lines for local development.
+ *
+ * Levels are set per module: LOG_LEVEL is the default (info) and LOG_LEVELS
+ * overrides modules, e.g. `LiveKitBot=debug,Supabase=warn`. Both can be
+ * changed at runtime (see PUT /admin/log-levels).
+ *
+ * Transcript text is sensitive: fields named in SENSITIVE_FIELDS are only
+ * written by debug entries, so they stay out of logs unless debug is enabled.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogContext = Record<string, unknown>
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+const SENSITIVE_FIELDS = ['text', 'transcript']
+
+const PRETTY = process.env.LOG_FORMAT === 'pretty'
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as string[]).includes(value)
+}
+
+let defaultLevel: LogLevel = isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info'
+const moduleLevels: Map<string, LogLevel> = new Map()
+
+for (const entry of (process.env.LOG_LEVELS || '').split(',')) {
+  const [module, level] = entry.split('=').map(part => part.trim())
+  if (module && isLogLevel(level)) moduleLevels.set(module, level)
+}
+
+/**
+ * Set a module's level, or the default with `*`. `null` clears a module's
+ * override so it follows the default again.
+ */
+export function setLogLevel(module: string, level: LogLevel | null): void {
+  if (module === '*') {
+    if (level) defaultLevel = level
+    return
+  }
+
+  if (level) {
+    moduleLevels.set(module, level)
+  } else {
+    moduleLevels.delete(module)
+  }
+}
+
+/**
+ * The default level and per-module overrides
+ */
+export function getLogLevels(): { default: LogLevel; modules: Record<string, LogLevel> } {
+  return { default: defaultLevel, modules: Object.fromEntries(moduleLevels) }
+}
+
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error
+  return { name: error.name, message: error.message, stack: error.stack }
+}
+
+function write(level: LogLevel, module: string, message: string, fields: LogContext): void {
+  const entry: LogContext = {
+    time: new Date().toISOString(),
+    level,
+    module,
+    msg: message
+  }
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue
+    if (level !== 'debug' && SENSITIVE_FIELDS.includes(key)) continue
+    entry[key] = key === 'error' ? serializeError(value) : value
+  }
+
+  const stream = level === 'error' || level === 'warn' ? process.stderr : process.stdout
+
+  if (PRETTY) {
+    const { time, msg, ...rest } = entry
+    delete rest.level
+    delete rest.module
+    const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : ''
+    stream.write(`${time} ${level.toUpperCase().padEnd(5)} [${module}] ${msg}${extra}\n`)
+    return
+  }
+
+  let line: string
+  try {
+    line = JSON.stringify(entry)
+  } catch {
+    // Circular or otherwise unserializable fields: keep the message
+    line = JSON.stringify({ time: entry.time, level, module, msg: message })
+  }
+  stream.write(line + '\n')
+}
+
+export class Logger {
+  readonly module: string
+  private context: LogContext
+
+  constructor(module: string, context: LogContext = {}) {
+    this.module = module
+    this.context = context
+  }
+
+  /**
+   * A logger that adds more context to every entry
+   */
+  child(context: LogContext): Logger {
+    return new Logger(this.module, { ...this.context, ...context })
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    const threshold = moduleLevels.get(this.module) ?? defaultLevel
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold)
+  }
+
+  debug(message: string, fields: LogContext = {}): void {
+    this.log('debug', message, fields)
+  }
+
+  info(message: string, fields: LogContext = {}): void {
+    this.log('info', message, fields)
+  }
+
+  warn(message: string, fields: LogContext = {}): void {
+    this.log('warn', message, fields)
+  }
+
+  error(message: string, fields: LogContext = {}): void {
+    this.log('error', message, fields)
+  }
+
+  private log(level: LogLevel, message: string, fields: LogContext): void {
+    if (!this.isEnabled(level)) return
+    write(level, this.module, message, { ...this.context, ...fields })
+  }
+}
+
+/**
+ * Logger for a module, optionally with context bound to every entry
+ */
+export function createLogger(module: string, context: LogContext = {}): Logger {
+  return new Logger(module, context)
+}
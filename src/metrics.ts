@@ -0,0 +1,275 @@
+/**
+ * Metrics
+ *
+ * Counters, gauges and histograms for the audio and transcription pipeline,
+ * served on GET /metrics in the Prometheus text exposition format.
+ *
+ * Metrics are defined here and updated where the work happens. Series
+ * labelled with a room are removed when the room stops, so finished
+ * meetings don't accumulate.
+ */
+
+import { createLogger } from './logger'
+
+const log = createLogger('Metrics')
+
+type Labels = Record<string, string>
+
+interface Series {
+  labels: Labels
+  value: number
+}
+
+interface HistogramSeries {
+  labels: Labels
+  bucketCounts: number[]
+  sum: number
+  count: number
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+abstract class Metric {
+  readonly name: string
+  readonly help: string
+  abstract readonly type: 'counter' | 'gauge' | 'histogram'
+
+  constructor(name: string, help: string) {
+    this.name = name
+    this.help = help
+  }
+
+  abstract render(): string[]
+
+  /** Drop series with this label value */
+  abstract removeSeries(label: string, value: string): void
+
+  protected header(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+  }
+}
+
+class ValueMetric extends Metric {
+  readonly type: 'counter' | 'gauge'
+  protected series: Map<string, Series> = new Map()
+
+  constructor(name: string, help: string, type: 'counter' | 'gauge') {
+    super(name, help)
+    this.type = type
+  }
+
+  protected update(labels: Labels, apply: (value: number) => number): void {
+    const key = seriesKey(labels)
+    const series = this.series.get(key) ?? { labels, value: 0 }
+    series.value = apply(series.value)
+    this.series.set(key, series)
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0
+  }
+
+  entries(): Series[] {
+    return Array.from(this.series.values())
+  }
+
+  removeSeries(label: string, value: string): void {
+    for (const [key, series] of this.series) {
+      if (series.labels[label] === value) this.series.delete(key)
+    }
+  }
+
+  render(): string[] {
+    return [
+      ...this.header(),
+      ...this.entries().map(series => `${this.name}${formatLabels(series.labels)} ${formatValue(series.value)}`)
+    ]
+  }
+}
+
+export class Counter extends ValueMetric {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter')
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    this.update(labels, value => value + amount)
+  }
+}
+
+export class Gauge extends ValueMetric {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge')
+  }
+
+  set(labels: Labels, value: number): void {
+    this.update(labels, () => value)
+  }
+
+  /** Replace all series, e.g. with values read at scrape time */
+  reset(): void {
+    this.series.clear()
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram'
+  private buckets: number[]
+  private series: Map<string, HistogramSeries> = new Map()
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help)
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.bucketCounts[index]++
+    })
+    series.sum += value
+    series.count++
+  }
+
+  removeSeries(label: string, value: string): void {
+    for (const [key, series] of this.series) {
+      if (series.labels[label] === value) this.series.delete(key)
+    }
+  }
+
+  render(): string[] {
+    const lines = this.header()
+
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const labels = { ...series.labels, le: formatValue(bound) }
+        lines.push(`${this.name}_bucket${formatLabels(labels)} ${series.bucketCounts[index]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`)
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`)
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`)
+    }
+
+    return lines
+  }
+}
+
+class MetricsRegistry {
+  private metrics: Metric[] = []
+  // Refresh gauges that are read rather than updated as things happen
+  private collectors: Array<() => void> = []
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric)
+    return metric
+  }
+
+  /**
+   * Run a callback before each scrape
+   */
+  onCollect(collector: () => void): void {
+    this.collectors.push(collector)
+  }
+
+  /**
+   * Forget every series for a room
+   */
+  removeRoom(roomId: string): void {
+    for (const metric of this.metrics) {
+      metric.removeSeries('room', roomId)
+    }
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    for (const collector of this.collectors) {
+      try {
+        collector()
+      } catch (error) {
+        log.error('Error collecting metrics', { error })
+      }
+    }
+
+    return this.metrics.map(metric => metric.render().join('\n')).join('\n') + '\n'
+  }
+}
+
+// Singleton instance
+export const metrics = new MetricsRegistry()
+
+export const activeRooms = metrics.register(new Gauge(
+  'transcription_active_rooms', 'Rooms this replica is transcribing'))
+
+export const activeParticipants = metrics.register(new Gauge(
+  'transcription_active_participants', 'Participants being transcribed, per room'))
+
+export const audioFramesReceived = metrics.register(new Counter(
+  'transcription_audio_frames_received_total', 'Audio frames received from LiveKit, per room'))
+
+export const vadAudioSeconds = metrics.register(new Counter(
+  'transcription_vad_audio_seconds_total', 'Audio classified by VAD, per room and class (speech or silence)'))
+
+export const vadSpeechRatio = metrics.register(new Gauge(
+  'transcription_vad_speech_ratio', 'Share of a room\'s audio VAD classed as speech (and sent to the provider)'))
+
+export const providerBytesSent = metrics.register(new Counter(
+  'transcription_provider_bytes_sent_total', 'Audio bytes sent to the speech-to-text provider'))
+
+export const providerReconnects = metrics.register(new Counter(
+  'transcription_provider_reconnects_total', 'Provider sessions reopened after dropping'))
+
+export const providerErrors = metrics.register(new Counter(
+  'transcription_provider_errors_total', 'Errors reported by the speech-to-text provider'))
+
+export const turnLatency = metrics.register(new Histogram(
+  'transcription_turn_latency_seconds', 'Time from the end of a spoken turn to its final transcript',
+  [0.25, 0.5, 1, 2, 3, 5, 10, 30]))
+
+export const supabaseWriteFailures = metrics.register(new Counter(
+  'transcription_supabase_write_failures_total', 'Failed Supabase writes, per table'))
+
+export const sinkFailures = metrics.register(new Counter(
+  'transcription_sink_failures_total', 'Transcript sink deliveries that failed after all retries, per sink'))
+
+export const spoolDeadLetters = metrics.register(new Counter(
+  'transcription_spool_dead_letters_total', 'Transcript rows the database rejected until they were dead-lettered'))
+
+// The speech ratio is derived from the VAD counters at scrape time
+metrics.onCollect(() => {
+  vadSpeechRatio.reset()
+
+  const rooms = new Set(vadAudioSeconds.entries().map(series => series.labels.room))
+  for (const room of rooms) {
+    const speech = vadAudioSeconds.get({ room, class: 'speech' })
+    const silence = vadAudioSeconds.get({ room, class: 'silence' })
+    if (speech + silence > 0) {
+      vadSpeechRatio.set({ room }, speech / (speech + silence))
+    }
+  }
+})
@@ -0,0 +1,137 @@
+/**
+ * Participant Consent
+ *
+ * Decides which participants the bot transcribes. Other bots, recorders and
+ * people who have declined are left out: by participant kind (agent, egress,
+ * SIP, ...), by identity pattern from the room's settings, and by each
+ * participant's own consent, read from their LiveKit attributes or metadata.
+ *
+ * Consent can change mid-call; the bot re-evaluates the decision whenever a
+ * participant's attributes or metadata change.
+ */
+
+import { ParticipantKind } from '@livekit/rtc-node'
+
+export type ParticipantKindName = 'standard' | 'ingress' | 'egress' | 'sip' | 'agent' | 'connector'
+
+export type ConsentState = 'granted' | 'declined' | 'unset'
+
+export interface ConsentPolicy {
+  /** Identity patterns never transcribed; `*` matches any run of characters */
+  excludeIdentities: string[]
+  excludeKinds: ParticipantKindName[]
+  /** Only transcribe participants who have explicitly opted in */
+  requireOptIn: boolean
+}
+
+export interface ConsentDecision {
+  transcribe: boolean
+  reason: 'excluded_identity' | 'excluded_kind' | 'declined' | 'no_opt_in' | 'allowed'
+  /** The participant's own consent, from attributes or metadata */
+  consent: ConsentState
+}
+
+/** What a decision needs to know about a participant */
+export interface ConsentSubject {
+  identity: string
+  kind: ParticipantKind
+  attributes: Record<string, string>
+  metadata?: string
+}
+
+export const PARTICIPANT_KINDS: ParticipantKindName[] = ['standard', 'ingress', 'egress', 'sip', 'agent', 'connector']
+
+// Attribute (or top-level metadata field) a participant sets to opt in or out
+export const CONSENT_KEY = process.env.CONSENT_ATTRIBUTE || 'transcription_consent'
+
+const GRANTED_VALUES = ['granted', 'true', 'on', 'yes']
+const DECLINED_VALUES = ['declined', 'false', 'off', 'no']
+
+const KIND_NAMES: Record<ParticipantKind, ParticipantKindName> = {
+  [ParticipantKind.STANDARD]: 'standard',
+  [ParticipantKind.INGRESS]: 'ingress',
+  [ParticipantKind.EGRESS]: 'egress',
+  [ParticipantKind.SIP]: 'sip',
+  [ParticipantKind.AGENT]: 'agent',
+  [ParticipantKind.CONNECTOR]: 'connector'
+}
+
+export function isParticipantKindName(value: unknown): value is ParticipantKindName {
+  return typeof value === 'string' && (PARTICIPANT_KINDS as string[]).includes(value)
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean)
+}
+
+/**
+ * Policy used when a room has no consent settings
+ */
+export function getDefaultConsentPolicy(): ConsentPolicy {
+  const kinds = process.env.CONSENT_EXCLUDE_KINDS ?? 'agent,egress,sip'
+  return {
+    excludeIdentities: splitList(process.env.CONSENT_EXCLUDE_IDENTITIES),
+    excludeKinds: splitList(kinds).filter(isParticipantKindName),
+    requireOptIn: process.env.CONSENT_REQUIRE_OPT_IN === 'true'
+  }
+}
+
+/**
+ * Match an identity against a pattern where `*` is a wildcard
+ */
+export function matchesIdentityPattern(identity: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`).test(identity)
+}
+
+function toConsentState(value: unknown): ConsentState {
+  if (typeof value === 'boolean') return value ? 'granted' : 'declined'
+  if (typeof value !== 'string') return 'unset'
+
+  const normalized = value.trim().toLowerCase()
+  if (GRANTED_VALUES.includes(normalized)) return 'granted'
+  if (DECLINED_VALUES.includes(normalized)) return 'declined'
+  return 'unset'
+}
+
+/**
+ * A participant's own consent. Attributes win over metadata, which is only
+ * read when it is a JSON object.
+ */
+export function readConsent(subject: ConsentSubject): ConsentState {
+  const fromAttributes = toConsentState(subject.attributes[CONSENT_KEY])
+  if (fromAttributes !== 'unset' || !subject.metadata) return fromAttributes
+
+  try {
+    const metadata = JSON.parse(subject.metadata)
+    return metadata && typeof metadata === 'object' ? toConsentState(metadata[CONSENT_KEY]) : 'unset'
+  } catch {
+    // Metadata isn't JSON; it carries no consent
+    return 'unset'
+  }
+}
+
+/**
+ * Whether a participant should be transcribed under a room's policy
+ */
+export function evaluateConsent(subject: ConsentSubject, policy: ConsentPolicy): ConsentDecision {
+  const consent = readConsent(subject)
+
+  if (policy.excludeIdentities.some(pattern => matchesIdentityPattern(subject.identity, pattern))) {
+    return { transcribe: false, reason: 'excluded_identity', consent }
+  }
+  if (policy.excludeKinds.includes(KIND_NAMES[subject.kind] ?? 'standard')) {
+    return { transcribe: false, reason: 'excluded_kind', consent }
+  }
+  if (consent === 'declined') {
+    return { transcribe: false, reason: 'declined', consent }
+  }
+  if (policy.requireOptIn && consent !== 'granted') {
+    return { transcribe: false, reason: 'no_opt_in', consent }
+  }
+
+  return { transcribe: true, reason: 'allowed', consent }
+}
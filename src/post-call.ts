@@ -0,0 +1,143 @@
+/**
+ * Post-Call Transcription
+ *
+ * In post-call mode the bot only records each participant's speech during
+ * the meeting. When the room stops, a job is queued here that sends every
+ * recording through the provider's batch API, stores the speaker-attributed
+ * results in live_transcript_events and marks the session completed.
+ *
+ * Jobs run one at a time so a burst of meetings ending together doesn't
+ * flood the provider.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { AudioTimeline } from './audio-timeline'
+import { createLogger } from './logger'
+import { addRedactionCounts, RedactionCounts, RedactionPolicy, redactTranscript } from './redaction'
+import {
+  updateTranscriptionSessionStatus,
+  storeTranscriptEvent,
+  storeTranscriptOriginal,
+  updateSessionRedactionCounts,
+  waitForTranscriptEvents
+} from './supabase'
+import { ParticipantRecording, TranscriptEvent, TranscriptionOptions, TranscriptionProvider } from './types'
+
+export interface PostCallJob {
+  roomId: string
+  sessionId: string
+  /** Session start; recording timelines are relative to it */
+  startedAt: Date
+  provider: TranscriptionProvider
+  /** Room language, model and vocabulary (including participant names) */
+  options: TranscriptionOptions
+  redaction: RedactionPolicy
+  recordings: ParticipantRecording[]
+}
+
+const log = createLogger('PostCall')
+
+let jobQueue: Promise<void> = Promise.resolve()
+
+/**
+ * Transcribe all recordings for a session and store the results
+ */
+async function runPostCallJob(job: PostCallJob): Promise<void> {
+  const { roomId, sessionId, provider } = job
+
+  if (!provider.transcribeRecording) {
+    throw new Error(`Provider ${provider.name} does not support post-call transcription`)
+  }
+
+  log.info('Processing session', { roomId, sessionId, recordings: job.recordings.length })
+  await updateTranscriptionSessionStatus(sessionId, 'processing')
+
+  const events: TranscriptEvent[] = []
+
+  for (const recording of job.recordings) {
+    // Participant never spoke, nothing to transcribe
+    if (recording.segments.length === 0) continue
+
+    const segments = await provider.transcribeRecording(recording, job.options)
+    const timeline = AudioTimeline.fromAnchors(recording.segments)
+
+    segments.forEach((segment, index) => {
+      if (segment.text.trim() === '') return
+
+      const startMs = timeline.toMeetingMs(segment.startMs)
+
+      events.push({
+        roomId,
+        sessionId,
+        participantId: recording.participantId,
+        participantName: recording.participantName,
+        segmentId: `${sessionId}:${path.basename(recording.filePath)}:${index}`,
+        text: segment.text,
+        isFinal: true,
+        confidence: segment.confidence,
+        timestamp: new Date(job.startedAt.getTime() + startMs),
+        startMs,
+        endMs: timeline.toMeetingMs(segment.endMs),
+        words: segment.words.map(word => ({
+          ...word,
+          startMs: timeline.toMeetingMs(word.startMs),
+          endMs: timeline.toMeetingMs(word.endMs)
+        }))
+      })
+    })
+  }
+
+  // Store in meeting order, interleaving speakers
+  events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  const redactionCounts: RedactionCounts = {}
+  const storedSegmentIds: string[] = []
+
+  for (const original of events) {
+    const { event, counts } = redactTranscript(original, job.redaction)
+    if (Object.keys(counts).length > 0) {
+      addRedactionCounts(redactionCounts, counts)
+      if (job.redaction.keepOriginal) {
+        await storeTranscriptOriginal(original)
+      }
+    }
+    if (!event) continue
+
+    await storeTranscriptEvent(event)
+    storedSegmentIds.push(event.segmentId)
+  }
+
+  await updateSessionRedactionCounts(sessionId, redactionCounts)
+
+  // Stored only means spooled; completed means the whole transcript is in the table
+  await waitForTranscriptEvents(storedSegmentIds)
+  await updateTranscriptionSessionStatus(sessionId, 'completed')
+
+  // Recordings are only kept until they've been transcribed
+  for (const recording of job.recordings) {
+    await fs.rm(recording.filePath, { force: true })
+  }
+  if (job.recordings.length > 0) {
+    await fs.rmdir(path.dirname(job.recordings[0].filePath)).catch(() => { /* not empty or already gone */ })
+  }
+
+  log.info('Session completed', { roomId, sessionId, events: storedSegmentIds.length })
+}
+
+/**
+ * Queue a post-call transcription job. Failures mark the session as failed
+ * and leave the recordings on disk for inspection.
+ */
+export function queuePostCallJob(job: PostCallJob): void {
+  jobQueue = jobQueue.then(async () => {
+    try {
+      await runPostCallJob(job)
+    } catch (error) {
+      log.error('Job failed', { roomId: job.roomId, sessionId: job.sessionId, error })
+      // A rejection here would break the chain and skip every later job
+      await updateTranscriptionSessionStatus(job.sessionId, 'failed').catch(statusError => {
+        log.error('Could not mark session failed', { roomId: job.roomId, sessionId: job.sessionId, error: statusError })
+      })
+    }
+  })
+}
@@ -0,0 +1,342 @@
+/**
+ * PII Redaction
+ *
+ * Runs between the bot and everything downstream (Supabase, Realtime,
+ * streams, sinks). Detectors find PII in transcript text; the room's policy
+ * decides per type whether to mask it, replace it with a keyed hash, drop
+ * the whole event, or allow it through.
+ *
+ * Detectors are pluggable: regex candidates plus a validation step (e.g. a
+ * Luhn check for card numbers) so ordinary numbers aren't redacted.
+ */
+
+import crypto from 'crypto'
+import { createLogger } from './logger'
+import { TranscriptEvent, TranscriptWord } from './types'
+
+export type RedactionAction = 'mask' | 'hash' | 'drop' | 'allow'
+
+export interface PiiMatch {
+  type: string
+  start: number
+  end: number
+}
+
+export interface PiiDetector {
+  /** PII type reported for matches, e.g. 'credit_card' */
+  type: string
+  find(text: string): PiiMatch[]
+}
+
+export interface RedactionPolicy {
+  enabled: boolean
+  /** Action for types without an explicit entry */
+  defaultAction: RedactionAction
+  actions: Record<string, RedactionAction>
+  /** Keep the unredacted event in the restricted originals table */
+  keepOriginal: boolean
+}
+
+/** Matches per PII type */
+export type RedactionCounts = Record<string, number>
+
+export interface RedactionResult {
+  /** Redacted event, or null when the policy drops it */
+  event: TranscriptEvent | null
+  counts: RedactionCounts
+}
+
+export const REDACTION_ACTIONS: RedactionAction[] = ['mask', 'hash', 'drop', 'allow']
+
+const log = createLogger('Redaction')
+
+// Interim text can end mid-number, before a detector could validate it.
+// Mask long digit runs in interims so partial card numbers aren't broadcast.
+const INTERIM_DIGIT_RUN = /\d(?:[\s-]?\d){5,}/g
+const INTERIM_NUMBER = 'number'
+const NUMERIC_TYPES = ['credit_card', 'ssn', 'phone']
+
+// Keys hashes so values can be correlated within a deployment but not reversed
+let hashSecret: string | null = process.env.REDACTION_HASH_SECRET || null
+
+export function isRedactionAction(value: unknown): value is RedactionAction {
+  return typeof value === 'string' && (REDACTION_ACTIONS as string[]).includes(value)
+}
+
+/**
+ * Policy used when a room has no redaction settings
+ */
+export function getDefaultRedactionPolicy(): RedactionPolicy {
+  const defaultAction = process.env.REDACTION_DEFAULT_ACTION
+  return {
+    enabled: true,
+    defaultAction: isRedactionAction(defaultAction) ? defaultAction : 'mask',
+    actions: {},
+    keepOriginal: false
+  }
+}
+
+/**
+ * Warn at startup when hashing is the default action but REDACTION_HASH_SECRET
+ * is unset (rooms that choose hashing warn when they first hash)
+ */
+export function checkRedactionConfig(): void {
+  if (getDefaultRedactionPolicy().defaultAction === 'hash') {
+    getHashSecret()
+  }
+}
+
+/**
+ * The hash key; without REDACTION_HASH_SECRET a random one for this process,
+ * so hashes won't match across restarts or replicas
+ */
+function getHashSecret(): string {
+  if (!hashSecret) {
+    log.warn('REDACTION_HASH_SECRET is not set, hashing PII with a random per-process key')
+    hashSecret = crypto.randomBytes(32).toString('hex')
+  }
+  return hashSecret
+}
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+/**
+ * Build a detector from a regex and an optional validator for each candidate
+ */
+export function createRegexDetector(
+  type: string,
+  pattern: RegExp,
+  validate: (match: string) => boolean = () => true
+): PiiDetector {
+  return {
+    type,
+    find(text: string): PiiMatch[] {
+      const matches: PiiMatch[] = []
+      const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`)
+      for (const match of text.matchAll(global)) {
+        if (match.index !== undefined && validate(match[0])) {
+          matches.push({ type, start: match.index, end: match.index + match[0].length })
+        }
+      }
+      return matches
+    }
+  }
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, '')
+
+const detectors: Map<string, PiiDetector> = new Map([
+  ['credit_card', createRegexDetector(
+    'credit_card',
+    /\b\d(?:[\s-]?\d){12,18}\b/,
+    match => passesLuhn(digitsOf(match))
+  )],
+  ['ssn', createRegexDetector(
+    'ssn',
+    /\b\d{3}[\s-]?\d{2}[\s-]?\d{4}\b/,
+    match => {
+      const digits = digitsOf(match)
+      const area = digits.slice(0, 3)
+      // Never-issued ranges
+      return area !== '000' && area !== '666' && area[0] !== '9' &&
+        digits.slice(3, 5) !== '00' && digits.slice(5) !== '0000'
+    }
+  )],
+  ['email', createRegexDetector(
+    'email',
+    /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/
+  )],
+  ['phone', createRegexDetector(
+    'phone',
+    // North American numbers, or international numbers written with a +country code
+    /(?:\+1[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b|\+\d{1,3}(?:[\s.-]?\d{1,4}){2,5}\b/,
+    match => {
+      const digits = digitsOf(match)
+      return digits.length >= 10 && digits.length <= 15
+    }
+  )]
+])
+
+/**
+ * Register an additional detector (replaces one with the same type)
+ */
+export function registerPiiDetector(detector: PiiDetector): void {
+  detectors.set(detector.type, detector)
+}
+
+/**
+ * Find PII in text. Overlapping matches keep the earliest detector's match,
+ * so a card number isn't also reported as a phone number.
+ */
+export function findPii(text: string): PiiMatch[] {
+  const matches: PiiMatch[] = []
+
+  for (const detector of detectors.values()) {
+    for (const match of detector.find(text)) {
+      const overlaps = matches.some(existing => match.start < existing.end && existing.start < match.end)
+      if (!overlaps) matches.push(match)
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start)
+}
+
+function actionFor(policy: RedactionPolicy, type: string): RedactionAction {
+  // Interim digit runs are a precaution rather than detections, so always just masked
+  if (type === INTERIM_NUMBER) return 'mask'
+  return policy.actions[type] ?? policy.defaultAction
+}
+
+function replacementFor(action: RedactionAction, type: string, value: string): string {
+  const label = type.toUpperCase()
+  if (action === 'hash') {
+    const digest = crypto.createHmac('sha256', getHashSecret()).update(value).digest('hex')
+    return `[${label}:${digest.slice(0, 12)}]`
+  }
+  return `[${label}]`
+}
+
+/**
+ * Replace matches in text according to the policy
+ */
+function applyMatches(text: string, matches: PiiMatch[], policy: RedactionPolicy): string {
+  let result = ''
+  let cursor = 0
+
+  for (const match of matches) {
+    const action = actionFor(policy, match.type)
+    if (action === 'allow') continue
+
+    result += text.slice(cursor, match.start) + replacementFor(action, match.type, text.slice(match.start, match.end))
+    cursor = match.end
+  }
+
+  return result + text.slice(cursor)
+}
+
+/**
+ * Words joined with spaces, with the offset of each word in the result
+ */
+function joinWords(words: TranscriptWord[]): { joined: string; offsets: number[] } {
+  const offsets: number[] = []
+  let joined = ''
+  for (const word of words) {
+    if (joined) joined += ' '
+    offsets.push(joined.length)
+    joined += word.text
+  }
+  return { joined, offsets }
+}
+
+/**
+ * Redact word timings given matches in their joined text. Words covered by
+ * a match collapse into one word holding the replacement, spanning their
+ * combined time.
+ */
+function redactWords(words: TranscriptWord[], matches: PiiMatch[], policy: RedactionPolicy): TranscriptWord[] {
+  if (matches.length === 0) return words
+
+  const { joined, offsets } = joinWords(words)
+
+  const result: TranscriptWord[] = []
+  let index = 0
+
+  for (const match of matches) {
+    while (index < words.length && offsets[index] + words[index].text.length <= match.start) {
+      result.push(words[index++])
+    }
+
+    const firstCovered = index
+    const covered: TranscriptWord[] = []
+    while (index < words.length && offsets[index] < match.end) {
+      covered.push(words[index++])
+    }
+    if (covered.length === 0) continue
+
+    const coveredText = joined.slice(offsets[firstCovered], match.end)
+    result.push({
+      text: replacementFor(actionFor(policy, match.type), match.type, coveredText),
+      startMs: covered[0].startMs,
+      endMs: covered[covered.length - 1].endMs,
+      confidence: Math.min(...covered.map(word => word.confidence))
+    })
+  }
+
+  return [...result, ...words.slice(index)]
+}
+
+/**
+ * PII matches the policy doesn't allow, plus unvalidated digit runs in interims
+ */
+function findRedactable(text: string, policy: RedactionPolicy, interim: boolean): PiiMatch[] {
+  const matches = findPii(text).filter(match => actionFor(policy, match.type) !== 'allow')
+  if (!interim || NUMERIC_TYPES.every(type => actionFor(policy, type) === 'allow')) return matches
+
+  for (const run of text.matchAll(INTERIM_DIGIT_RUN)) {
+    const start = run.index ?? 0
+    const end = start + run[0].length
+    if (!matches.some(match => start < match.end && match.start < end)) {
+      matches.push({ type: INTERIM_NUMBER, start, end })
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Apply a room's redaction policy to a transcript event
+ */
+export function redactTranscript(event: TranscriptEvent, policy: RedactionPolicy): RedactionResult {
+  if (!policy.enabled) return { event, counts: {} }
+
+  const interim = !event.isFinal
+  const matches = findRedactable(event.text, policy, interim)
+  // Words are scanned separately: providers can format them differently from
+  // the text, so PII may only be detectable in one of the two
+  const wordMatches = findRedactable(joinWords(event.words).joined, policy, interim)
+
+  // Counted from the text, or from the words when only they had matches
+  const counts: RedactionCounts = {}
+  for (const match of matches.length > 0 ? matches : wordMatches) {
+    if (match.type === INTERIM_NUMBER) continue
+    counts[match.type] = (counts[match.type] ?? 0) + 1
+  }
+
+  if (matches.length === 0 && wordMatches.length === 0) return { event, counts }
+
+  if ([...matches, ...wordMatches].some(match => actionFor(policy, match.type) === 'drop')) {
+    return { event: null, counts }
+  }
+
+  return {
+    event: {
+      ...event,
+      text: applyMatches(event.text, matches, policy),
+      words: redactWords(event.words, wordMatches, policy)
+    },
+    counts
+  }
+}
+
+/**
+ * Add `counts` into `total` in place
+ */
+export function addRedactionCounts(total: RedactionCounts, counts: RedactionCounts): void {
+  for (const [type, count] of Object.entries(counts)) {
+    total[type] = (total[type] ?? 0) + count
+  }
+}
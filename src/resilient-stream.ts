@@ -0,0 +1,528 @@
+/**
+ * Resilient Transcription Stream
+ *
+ * Wraps a provider's per-participant stream so audio keeps flowing through
+ * connection problems:
+ * - Audio sent while the provider session is down is buffered (up to
+ *   STREAM_BUFFER_MS, oldest dropped first) and flushed once a new session
+ *   opens. Reconnects run in the background with exponential backoff and
+ *   jitter, so the bot's frame loop never waits on them.
+ * - A circuit breaker shared by all streams of a provider stops connection
+ *   attempts for a while after repeated failures.
+ * - Sessions that report an expiry are rolled over before it: a new session
+ *   is opened ahead of time and takes over at the next pause in speech, and
+ *   the old one is ended gracefully so the provider finalizes its last turn.
+ *
+ * Offsets in results are positions in all audio sent through the wrapper,
+ * so they stay continuous across sessions.
+ */
+
+import { EventEmitter } from 'events'
+import { createLogger, Logger, LogContext } from './logger'
+import { providerReconnects } from './metrics'
+import { TranscriptResult, TranscriptionStream } from './types'
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface StreamStats {
+  connected: boolean
+  /** Sessions opened to replace one that was lost */
+  reconnects: number
+  /** Sessions replaced ahead of their expiry */
+  rollovers: number
+  /** Audio dropped because the buffer overflowed or the stream closed */
+  droppedAudioMs: number
+  /** Audio waiting for a session */
+  bufferedAudioMs: number
+  circuit: CircuitState
+}
+
+interface BufferedChunk {
+  audio: Int16Array
+  /** Position of the chunk in all audio sent through the wrapper */
+  offsetMs: number
+  durationMs: number
+}
+
+interface ProviderSession {
+  stream: TranscriptionStream
+  /** Counts sessions of this wrapper; scopes turn ids */
+  index: number
+  /** Wrapper offset of the first audio sent to this session */
+  baseMs: number | null
+  expiresAt: Date | null
+}
+
+const log = createLogger('Stream')
+
+const SAMPLE_RATE = 16000
+
+const MAX_BUFFER_MS = Number(process.env.STREAM_BUFFER_MS) || 30000
+const RETRY_BASE_MS = 500
+const MAX_RETRY_DELAY_MS = 30000
+
+const CIRCUIT_FAILURE_THRESHOLD = Number(process.env.STREAM_CIRCUIT_FAILURES) || 5
+const CIRCUIT_COOLDOWN_MS = Number(process.env.STREAM_CIRCUIT_COOLDOWN_MS) || 30000
+
+// Open the replacement session this long before the current one expires
+const ROLLOVER_LEAD_MS = Number(process.env.STREAM_ROLLOVER_LEAD_MS) || 120000
+// Switch sessions at the first pause in speech at least this long...
+const ROLLOVER_PAUSE_MS = 1000
+// ...or unconditionally this long before expiry
+const ROLLOVER_DEADLINE_MS = 10000
+
+/**
+ * Trips after repeated connection failures, then lets a single trial
+ * attempt through once the cooldown has passed
+ */
+class CircuitBreaker {
+  private name: string
+  private failures = 0
+  private openUntil = 0
+  private trialInProgress = false
+  state: CircuitState = 'closed'
+
+  constructor(name: string) {
+    this.name = name
+  }
+
+  /**
+   * Whether a connection attempt may be made now
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'closed') return true
+
+    if (this.state === 'open' && Date.now() >= this.openUntil) {
+      this.state = 'half-open'
+      this.trialInProgress = false
+    }
+    if (this.state === 'half-open' && !this.trialInProgress) {
+      this.trialInProgress = true
+      return true
+    }
+    return false
+  }
+
+  /**
+   * How long until an attempt may be allowed again
+   */
+  getRetryInMs(): number {
+    return Math.max(RETRY_BASE_MS, this.openUntil - Date.now())
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      log.info('Circuit closed', { provider: this.name })
+    }
+    this.state = 'closed'
+    this.failures = 0
+    this.trialInProgress = false
+  }
+
+  recordFailure(): void {
+    this.failures++
+    this.trialInProgress = false
+
+    if (this.state === 'half-open' || this.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+      if (this.state !== 'open') {
+        log.warn('Circuit open, pausing connection attempts', {
+          provider: this.name,
+          failures: this.failures,
+          cooldownMs: CIRCUIT_COOLDOWN_MS
+        })
+      }
+      this.state = 'open'
+      this.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS
+    }
+  }
+}
+
+const breakers: Map<string, CircuitBreaker> = new Map()
+
+function getBreaker(providerName: string): CircuitBreaker {
+  let breaker = breakers.get(providerName)
+  if (!breaker) {
+    breaker = new CircuitBreaker(providerName)
+    breakers.set(providerName, breaker)
+  }
+  return breaker
+}
+
+export class ResilientStream extends EventEmitter implements TranscriptionStream {
+  private providerName: string
+  private createSession: () => TranscriptionStream
+  private log: Logger
+  private breaker: CircuitBreaker
+  private current: ProviderSession | null = null
+  // Replacement opened ahead of the current session's expiry
+  private next: ProviderSession | null = null
+  private sessionCount = 0
+  private buffer: BufferedChunk[] = []
+  private bufferedMs = 0
+  private offsetMs = 0
+  private lastAudioAt = 0
+  private connecting: Promise<void> | null = null
+  private retryTimer: NodeJS.Timeout | null = null
+  private rolloverTimers: NodeJS.Timeout[] = []
+  private failures = 0
+  private closed = false
+  // Sessions were ended on purpose; the next one isn't a reconnect
+  private suspended = false
+  private reconnects = 0
+  private rollovers = 0
+  private droppedMs = 0
+
+  /**
+   * `logContext` is bound to the stream's log entries, e.g. the room and participant it serves
+   */
+  constructor(
+    providerName: string,
+    participantName: string,
+    createSession: () => TranscriptionStream,
+    logContext: LogContext = {}
+  ) {
+    super()
+    this.providerName = providerName
+    this.createSession = createSession
+    this.log = log.child({ provider: providerName, participantName, ...logContext })
+    this.breaker = getBreaker(providerName)
+  }
+
+  /**
+   * Open a provider session. Failures are retried in the background rather
+   * than thrown, so a participant is set up even while the provider is down.
+   */
+  async connect(): Promise<void> {
+    this.ensureConnected()
+    await this.connecting
+  }
+
+  /**
+   * Send audio now, or buffer it until a session is available
+   */
+  sendAudio(audioData: Int16Array): void {
+    if (this.closed) return
+
+    const chunk: BufferedChunk = {
+      audio: audioData,
+      offsetMs: this.offsetMs,
+      durationMs: (audioData.length / SAMPLE_RATE) * 1000
+    }
+    this.offsetMs += chunk.durationMs
+
+    const pausedMs = Date.now() - this.lastAudioAt
+    this.lastAudioAt = Date.now()
+
+    // Speech is resuming after a pause: a good moment to hand over to the replacement
+    if (this.next && pausedMs >= ROLLOVER_PAUSE_MS) {
+      this.rollover()
+    }
+
+    if (this.current?.stream.isActive() && this.buffer.length === 0) {
+      this.sendToSession(this.current, chunk)
+      return
+    }
+
+    this.bufferChunk(chunk)
+    this.ensureConnected()
+  }
+
+  isActive(): boolean {
+    return this.current?.stream.isActive() ?? false
+  }
+
+  /**
+   * End the provider session while no audio is expected (e.g. the track is
+   * muted) so it isn't billed. The next audio opens a new one.
+   */
+  async suspend(): Promise<void> {
+    if (this.closed) return
+
+    this.suspended = true
+    this.clearRolloverTimers()
+
+    const sessions = [this.current, this.next].filter((session): session is ProviderSession => session !== null)
+    this.current = null
+    this.next = null
+    await Promise.all(sessions.map(session => this.retire(session)))
+  }
+
+  /**
+   * End all sessions gracefully; buffered audio that was never sent is dropped
+   */
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+
+    this.clearRolloverTimers()
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+
+    this.droppedMs += this.bufferedMs
+    this.buffer = []
+    this.bufferedMs = 0
+
+    const sessions = [this.current, this.next].filter((session): session is ProviderSession => session !== null)
+    this.current = null
+    this.next = null
+    await Promise.all(sessions.map(session => this.retire(session)))
+
+    this.emit('closed')
+  }
+
+  getStats(): StreamStats {
+    return {
+      connected: this.isActive(),
+      reconnects: this.reconnects,
+      rollovers: this.rollovers,
+      droppedAudioMs: Math.round(this.droppedMs),
+      bufferedAudioMs: Math.round(this.bufferedMs),
+      circuit: this.breaker.state
+    }
+  }
+
+  private bufferChunk(chunk: BufferedChunk): void {
+    this.buffer.push(chunk)
+    this.bufferedMs += chunk.durationMs
+
+    while (this.bufferedMs > MAX_BUFFER_MS && this.buffer.length > 0) {
+      const dropped = this.buffer.shift()!
+      this.bufferedMs -= dropped.durationMs
+      if (this.droppedMs === 0) {
+        this.log.warn('Audio buffer is full, dropping the oldest audio')
+      }
+      this.droppedMs += dropped.durationMs
+    }
+  }
+
+  private sendToSession(session: ProviderSession, chunk: BufferedChunk): void {
+    if (session.baseMs === null) {
+      session.baseMs = chunk.offsetMs
+    }
+    session.stream.sendAudio(chunk.audio)
+  }
+
+  /**
+   * Start a connection attempt unless one is running, scheduled or not allowed yet
+   */
+  private ensureConnected(): void {
+    if (this.closed || this.connecting || this.retryTimer || this.current?.stream.isActive()) return
+
+    if (!this.breaker.tryAcquire()) {
+      this.scheduleRetry(this.breaker.getRetryInMs())
+      return
+    }
+
+    const replacing = this.sessionCount > 0
+    this.connecting = this.openSession()
+      .then(session => {
+        this.breaker.recordSuccess()
+        this.failures = 0
+
+        if (this.closed) {
+          this.retire(session)
+          return
+        }
+
+        // A session that went inactive without telling us
+        if (this.current) this.retire(this.current)
+
+        this.current = session
+        if (replacing && !this.suspended) {
+          this.reconnects++
+          providerReconnects.inc({ provider: this.providerName })
+        }
+        this.suspended = false
+        this.scheduleRollover(session)
+        this.flushBuffer()
+      })
+      .catch(error => {
+        this.breaker.recordFailure()
+        this.failures++
+
+        const delay = Math.min(MAX_RETRY_DELAY_MS, RETRY_BASE_MS * Math.pow(2, this.failures - 1))
+        this.log.error('Connection failed', { attempt: this.failures, error })
+        // Without waiting audio, reconnect lazily when speech next arrives
+        if (this.buffer.length > 0) {
+          this.scheduleRetry(delay / 2 + Math.random() * delay / 2)
+        }
+      })
+      .finally(() => {
+        this.connecting = null
+      })
+  }
+
+  private scheduleRetry(delayMs: number): void {
+    if (this.closed || this.retryTimer) return
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.ensureConnected()
+    }, delayMs)
+  }
+
+  private flushBuffer(): void {
+    if (!this.current || this.buffer.length === 0) return
+
+    this.log.info('Flushing buffered audio', { bufferedMs: Math.round(this.bufferedMs) })
+    for (const chunk of this.buffer) {
+      this.sendToSession(this.current, chunk)
+    }
+    this.buffer = []
+    this.bufferedMs = 0
+  }
+
+  /**
+   * Create and connect a provider session, forwarding its results with
+   * offsets and turn ids scoped to the wrapper
+   */
+  private async openSession(): Promise<ProviderSession> {
+    const stream = this.createSession()
+    const session: ProviderSession = {
+      stream,
+      index: ++this.sessionCount,
+      baseMs: null,
+      expiresAt: null
+    }
+
+    stream.on('connected', (_sessionId: string, expiresAt?: Date) => {
+      session.expiresAt = expiresAt ?? null
+      // The expiry can arrive after the session has become current
+      if (session === this.current) {
+        this.clearRolloverTimers()
+        this.scheduleRollover(session)
+      }
+    })
+    stream.on('transcript', (result: TranscriptResult) => {
+      this.emit('transcript', this.toStreamResult(session, result))
+    })
+    stream.on('error', (error: unknown) => {
+      this.emit('error', error)
+    })
+    stream.on('closed', () => {
+      this.handleSessionClosed(session)
+    })
+
+    try {
+      await stream.connect()
+    } catch (error) {
+      stream.removeAllListeners()
+      throw error
+    }
+
+    this.emit('connected', `${session.index}`)
+    return session
+  }
+
+  private toStreamResult(session: ProviderSession, result: TranscriptResult): TranscriptResult {
+    const baseMs = session.baseMs ?? this.offsetMs
+
+    return {
+      ...result,
+      turnId: `${session.index}:${result.turnId}`,
+      startMs: result.startMs !== undefined ? baseMs + result.startMs : undefined,
+      endMs: result.endMs !== undefined ? baseMs + result.endMs : undefined,
+      words: result.words.map(word => ({
+        ...word,
+        startMs: baseMs + word.startMs,
+        endMs: baseMs + word.endMs
+      }))
+    }
+  }
+
+  /**
+   * A session ended without us closing it (network drop, idle timeout, expiry)
+   */
+  private handleSessionClosed(session: ProviderSession): void {
+    if (session === this.next) {
+      this.next = null
+      return
+    }
+    if (session !== this.current) return
+
+    this.log.info('Session closed, reconnecting on next audio', { session: session.index })
+    this.current = null
+    this.clearRolloverTimers()
+
+    // Promote a replacement that was already waiting
+    if (this.next) {
+      this.current = this.next
+      this.next = null
+      this.rollovers++
+      this.scheduleRollover(this.current)
+    }
+  }
+
+  /**
+   * Open the replacement ahead of expiry, and force the switch near it
+   */
+  private scheduleRollover(session: ProviderSession): void {
+    if (!session.expiresAt) return
+
+    const untilExpiryMs = session.expiresAt.getTime() - Date.now()
+    // Too close to expiry to hand over cleanly; reconnect when it closes instead
+    if (untilExpiryMs <= ROLLOVER_DEADLINE_MS) return
+
+    this.rolloverTimers.push(setTimeout(() => {
+      if (session !== this.current || this.next || this.closed) return
+
+      this.openSession()
+        .then(next => {
+          if (session !== this.current || this.closed) {
+            this.retire(next)
+            return
+          }
+          this.log.info('Opened replacement session, switching at the next pause', { session: next.index })
+          this.next = next
+        })
+        .catch(error => {
+          this.log.error('Could not open replacement session', { error })
+        })
+    }, Math.max(0, untilExpiryMs - ROLLOVER_LEAD_MS)))
+
+    this.rolloverTimers.push(setTimeout(() => {
+      if (session === this.current && this.next) {
+        this.rollover()
+      }
+    }, Math.max(0, untilExpiryMs - ROLLOVER_DEADLINE_MS)))
+  }
+
+  /**
+   * Hand over to the replacement session
+   */
+  private rollover(): void {
+    const previous = this.current
+    this.current = this.next
+    this.next = null
+    if (!this.current) return
+
+    this.rollovers++
+    this.clearRolloverTimers()
+    this.scheduleRollover(this.current)
+    this.log.info('Rolled over to new session', { session: this.current.index })
+
+    if (previous) this.retire(previous)
+  }
+
+  /**
+   * End a session gracefully. Its final results still arrive (and are mapped
+   * with its own offsets) until the provider confirms termination.
+   */
+  private async retire(session: ProviderSession): Promise<void> {
+    try {
+      await session.stream.close()
+    } catch (error) {
+      this.log.error('Error closing session', { session: session.index, error })
+    }
+    session.stream.removeAllListeners()
+  }
+
+  private clearRolloverTimers(): void {
+    for (const timer of this.rolloverTimers) {
+      clearTimeout(timer)
+    }
+    this.rolloverTimers = []
+  }
+}
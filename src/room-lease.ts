@@ -0,0 +1,296 @@
+/**
+ * Room Leases
+ *
+ * With several replicas behind the webhooks, each room must be transcribed
+ * by exactly one of them. A replica claims a room with a time-limited
+ * lease before joining, renews it while the bot is in the room, and
+ * releases it on stop. If a replica dies, its lease expires and another
+ * replica can take the room over (see RoomManager.watchOrphanedSessions).
+ *
+ * Leases live in the room_leases table by default; ROOM_LEASE_STORE=memory
+ * keeps them in-process for local development with a single replica.
+ */
+
+import os from 'os'
+import { createLogger } from './logger'
+import { getSupabase } from './supabase'
+
+export interface LeaseStore {
+  /** Claim the room if it is unowned, expired or already ours. Resolves true when we hold it. */
+  acquire(roomId: string, ownerId: string, ttlMs: number): Promise<boolean>
+  /** Extend our lease. Resolves false if another owner has taken it. */
+  renew(roomId: string, ownerId: string, ttlMs: number): Promise<boolean>
+  release(roomId: string, ownerId: string): Promise<void>
+  /** Owner of the room's unexpired lease, or null */
+  getOwner(roomId: string): Promise<string | null>
+  /** Rooms whose lease has expired without being released */
+  listExpired(): Promise<string[]>
+  /** Delete a lease row if it is still expired (e.g. the room has ended) */
+  removeExpired(roomId: string): Promise<void>
+}
+
+const log = createLogger('Lease')
+
+const LEASE_TTL_MS = Number(process.env.ROOM_LEASE_TTL_MS) || 30000
+
+/**
+ * In-process lease store for a single replica (local development)
+ */
+export class MemoryLeaseStore implements LeaseStore {
+  private leases: Map<string, { ownerId: string; expiresAt: number }> = new Map()
+
+  async acquire(roomId: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const lease = this.leases.get(roomId)
+    if (lease && lease.ownerId !== ownerId && lease.expiresAt > Date.now()) return false
+
+    this.leases.set(roomId, { ownerId, expiresAt: Date.now() + ttlMs })
+    return true
+  }
+
+  async renew(roomId: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const lease = this.leases.get(roomId)
+    if (!lease || lease.ownerId !== ownerId) return false
+
+    lease.expiresAt = Date.now() + ttlMs
+    return true
+  }
+
+  async release(roomId: string, ownerId: string): Promise<void> {
+    if (this.leases.get(roomId)?.ownerId === ownerId) {
+      this.leases.delete(roomId)
+    }
+  }
+
+  async getOwner(roomId: string): Promise<string | null> {
+    const lease = this.leases.get(roomId)
+    return lease && lease.expiresAt > Date.now() ? lease.ownerId : null
+  }
+
+  async listExpired(): Promise<string[]> {
+    const now = Date.now()
+    return Array.from(this.leases.entries())
+      .filter(([, lease]) => lease.expiresAt <= now)
+      .map(([roomId]) => roomId)
+  }
+
+  async removeExpired(roomId: string): Promise<void> {
+    const lease = this.leases.get(roomId)
+    if (lease && lease.expiresAt <= Date.now()) {
+      this.leases.delete(roomId)
+    }
+  }
+}
+
+/**
+ * Leases in the room_leases table (room_id primary key, owner_id, expires_at).
+ * Claims are an insert, or a conditional update of an expired row, so two
+ * replicas racing for a room can't both win.
+ */
+export class SupabaseLeaseStore implements LeaseStore {
+  async acquire(roomId: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const now = new Date()
+    const expiresAt = new Date(now.getTime() + ttlMs).toISOString()
+
+    const { error: insertError } = await getSupabase()
+      .from('room_leases')
+      .insert({ room_id: roomId, owner_id: ownerId, expires_at: expiresAt })
+
+    if (!insertError) return true
+    // 23505: unique violation, the room already has a lease row
+    if (insertError.code !== '23505') {
+      throw new Error(`Error claiming room lease: ${insertError.message}`)
+    }
+
+    const { data, error } = await getSupabase()
+      .from('room_leases')
+      .update({ owner_id: ownerId, expires_at: expiresAt })
+      .eq('room_id', roomId)
+      .or(`owner_id.eq."${ownerId}",expires_at.lt."${now.toISOString()}"`)
+      .select('room_id')
+
+    if (error) {
+      throw new Error(`Error claiming room lease: ${error.message}`)
+    }
+
+    return (data?.length ?? 0) > 0
+  }
+
+  async renew(roomId: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const { data, error } = await getSupabase()
+      .from('room_leases')
+      .update({ expires_at: new Date(Date.now() + ttlMs).toISOString() })
+      .eq('room_id', roomId)
+      .eq('owner_id', ownerId)
+      .select('room_id')
+
+    if (error) {
+      throw new Error(`Error renewing room lease: ${error.message}`)
+    }
+
+    return (data?.length ?? 0) > 0
+  }
+
+  async release(roomId: string, ownerId: string): Promise<void> {
+    const { error } = await getSupabase()
+      .from('room_leases')
+      .delete()
+      .eq('room_id', roomId)
+      .eq('owner_id', ownerId)
+
+    if (error) {
+      log.error('Error releasing room lease', { roomId, error })
+    }
+  }
+
+  async getOwner(roomId: string): Promise<string | null> {
+    const { data, error } = await getSupabase()
+      .from('room_leases')
+      .select('owner_id')
+      .eq('room_id', roomId)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error fetching room lease: ${error.message}`)
+    }
+
+    return data?.owner_id ?? null
+  }
+
+  async listExpired(): Promise<string[]> {
+    const { data, error } = await getSupabase()
+      .from('room_leases')
+      .select('room_id')
+      .lt('expires_at', new Date().toISOString())
+
+    if (error) {
+      throw new Error(`Error listing expired room leases: ${error.message}`)
+    }
+
+    return (data || []).map(row => row.room_id)
+  }
+
+  async removeExpired(roomId: string): Promise<void> {
+    const { error } = await getSupabase()
+      .from('room_leases')
+      .delete()
+      .eq('room_id', roomId)
+      .lt('expires_at', new Date().toISOString())
+
+    if (error) {
+      log.error('Error removing expired room lease', { roomId, error })
+    }
+  }
+}
+
+export class RoomLeases {
+  /** Identifies this replica as a lease owner */
+  readonly ownerId: string
+  readonly ttlMs: number
+  private store: LeaseStore
+  private renewals: Map<string, NodeJS.Timeout> = new Map()
+
+  constructor(
+    store: LeaseStore,
+    ownerId: string = process.env.RAILWAY_REPLICA_ID || `${os.hostname()}:${process.pid}`,
+    ttlMs: number = LEASE_TTL_MS
+  ) {
+    this.store = store
+    this.ownerId = ownerId
+    this.ttlMs = ttlMs
+  }
+
+  /**
+   * Try to claim a room for this replica. Resolves false when another replica
+   * holds it, and rejects when the store can't be reached.
+   */
+  claim(roomId: string): Promise<boolean> {
+    return this.store.acquire(roomId, this.ownerId, this.ttlMs)
+  }
+
+  /**
+   * Renew the lease every third of its TTL while the room is active.
+   * `onLost` is called if another replica has taken the room over.
+   */
+  startRenewing(roomId: string, onLost: () => void): void {
+    this.stopRenewing(roomId)
+
+    const timer = setInterval(async () => {
+      try {
+        const held = await this.store.renew(roomId, this.ownerId, this.ttlMs)
+        if (!held) {
+          log.warn('Lost lease on room to another replica', { roomId })
+          this.stopRenewing(roomId)
+          onLost()
+        }
+      } catch (error) {
+        // Keep trying; the lease stays ours unless it expires and someone else claims it
+        log.error('Could not renew lease on room', { roomId, error })
+      }
+    }, this.ttlMs / 3)
+
+    this.renewals.set(roomId, timer)
+  }
+
+  private stopRenewing(roomId: string): void {
+    const timer = this.renewals.get(roomId)
+    if (timer) {
+      clearInterval(timer)
+      this.renewals.delete(roomId)
+    }
+  }
+
+  /**
+   * Whether another live replica holds the room
+   */
+  async isHeldElsewhere(roomId: string): Promise<boolean> {
+    try {
+      const owner = await this.store.getOwner(roomId)
+      return owner !== null && owner !== this.ownerId
+    } catch (error) {
+      // Assume the room is taken rather than risk two replicas acting on it
+      log.error('Could not check lease on room', { roomId, error })
+      return true
+    }
+  }
+
+  /**
+   * Rooms whose owner stopped renewing without releasing them
+   */
+  async listExpired(): Promise<string[]> {
+    try {
+      return await this.store.listExpired()
+    } catch (error) {
+      log.error('Could not list expired leases', { error })
+      return []
+    }
+  }
+
+  /**
+   * Forget an expired lease for a room that no longer needs transcribing
+   */
+  async removeExpired(roomId: string): Promise<void> {
+    try {
+      await this.store.removeExpired(roomId)
+    } catch (error) {
+      log.error('Could not remove expired lease on room', { roomId, error })
+    }
+  }
+
+  /**
+   * Give up a room so any replica can claim it
+   */
+  async release(roomId: string): Promise<void> {
+    this.stopRenewing(roomId)
+    try {
+      await this.store.release(roomId, this.ownerId)
+    } catch (error) {
+      log.error('Could not release room', { roomId, error })
+    }
+  }
+}
+
+// Singleton instance
+export const roomLeases = new RoomLeases(
+  process.env.ROOM_LEASE_STORE === 'memory' ? new MemoryLeaseStore() : new SupabaseLeaseStore()
+)
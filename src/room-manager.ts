@@ -5,163 +5,317 @@
  * Handles starting/stopping bots and coordinating with Supabase.
  */
 
-import { LiveKitBot } from './livekit-bot'
-import { TranscriptEvent } from './types'
+import os from 'os'
+import path from 'path'
+import { isLiveKitRoomActive, LiveKitBot } from './livekit-bot'
+import { queuePostCallJob } from './post-call'
+import { roomLeases } from './room-lease'
+import { SessionAnalytics, SessionAnalyticsTracker } from './speaker-analytics'
+import { addRedactionCounts, RedactionCounts, RedactionPolicy, redactTranscript } from './redaction'
+import { SinkConfig, SinkContext, sinkDispatcher } from './transcript-sinks'
+import { transcriptHub } from './transcript-stream'
+import { tokensForSpeech, UsageAlert, usageLedger } from './usage-ledger'
+import { getTranscriptionProvider } from './transcription-provider'
+import { getTranslator, RoomTranslator, TranslationSettings } from './translation'
+import { createLogger } from './logger'
+import { activeParticipants, activeRooms, metrics } from './metrics'
+import { SpeechActivity, StoredSession, TranscriptEvent, TranscriptionProvider } from './types'
 import {
   getRoomSettings,
   createTranscriptionSession,
   completeTranscriptionSession,
+  estimateSessionUsage,
+  getActiveTranscriptionSessions,
   publishTranscript,
-  removeChannel
+  broadcastTranslation,
+  broadcastUsageAlert,
+  removeChannel,
+  saveSessionAnalytics,
+  storeTranscriptEvent,
+  storeTranscriptOriginal,
+  updateSessionRedactionCounts
 } from './supabase'
 
-// SkillsKit configuration
-const SKILLSKIT_URL = process.env.SKILLSKIT_SESSION_URL || 'http://localhost:3100'
+const log = createLogger('RoomManager')
 
-// JR Agent configuration
-const JR_SERVICE_URL = process.env.JR_SERVICE_URL || 'http://localhost:3102'
+// Where post-call recordings are kept until they have been transcribed
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR || path.join(os.tmpdir(), 'meetingburner-recordings')
 
 interface ActiveRoom {
   roomId: string
   bot: LiveKitBot
   sessionId: string
   mode: 'live' | 'post-call'
+  provider: TranscriptionProvider
   startedAt: Date
-  skillsKitSessionId?: string
+  sinks: SinkConfig[]
+  sinkContext: SinkContext
+  redaction: RedactionPolicy
+  // PII matches redacted from final transcripts so far
+  redactionCounts: RedactionCounts
+  analytics: SessionAnalyticsTracker
+  // Translates final transcripts, when the room has target languages
+  translation?: RoomTranslator
+  // Speech billed before the session was interrupted, when it was resumed
+  priorSpeechMs: number
+}
+
+interface ResumedSession extends StoredSession {
+  /** Speech billed before the interruption */
+  speechDurationMs: number
 }
 
 class RoomManager {
   private activeRooms: Map<string, ActiveRoom> = new Map()
   private joiningRooms: Set<string> = new Set()
   private stoppingRooms: Set<string> = new Set()
-
-  /**
-   * Forward a final transcript to an external service.
-   * Failures are logged but never propagated — forwarding is best-effort.
-   */
-  private async forwardTranscript(
-    url: string,
-    label: string,
-    body: object
-  ): Promise<void> {
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body)
-      })
-      if (!response.ok) {
-        console.log(`[RoomManager] ${label} response: ${response.status}`)
+  private reconciling = false
+
+  constructor() {
+    // Room and participant counts are read when metrics are scraped
+    metrics.onCollect(() => {
+      activeRooms.set({}, this.activeRooms.size)
+      activeParticipants.reset()
+      for (const room of this.activeRooms.values()) {
+        activeParticipants.set({ room: room.roomId }, room.bot.getParticipantCount())
       }
-    } catch {
-      // External service may not be running — that's fine
-    }
-  }
-
-  /**
-   * Handle a final transcript: forward to JR Agent and SkillsKit
-   */
-  private async handleFinalTranscript(event: TranscriptEvent): Promise<void> {
-    this.forwardTranscript(
-      `${JR_SERVICE_URL}/transcript`,
-      'JR agent',
-      {
-        roomId: event.roomId,
-        transcript: {
-          text: event.text,
-          speaker: event.participantName,
-          confidence: event.confidence,
-          isFinal: true
-        }
-      }
-    )
-
-    const activeRoom = this.activeRooms.get(event.roomId)
-    if (activeRoom?.skillsKitSessionId) {
-      this.forwardTranscript(
-        `${SKILLSKIT_URL}/v1/sessions/${activeRoom.skillsKitSessionId}/signals`,
-        'SkillsKit',
-        {
-          type: 'transcript',
-          data: {
-            text: event.text,
-            speaker: event.participantName,
-            confidence: event.confidence,
-            isFinal: true
-          }
-        }
-      )
-    }
+    })
   }
 
   /**
-   * Start transcription for a room
+   * Start transcription for a room, or resume an interrupted session in it
    */
-  async startRoom(roomId: string): Promise<boolean> {
+  async startRoom(roomId: string, resume?: ResumedSession): Promise<boolean> {
     // Check if already active
     if (this.activeRooms.has(roomId)) {
-      console.log(`[RoomManager] Room ${roomId} already has active transcription`)
+      log.info('Room already has active transcription', { roomId })
       return true
     }
 
     // Check if currently joining
     if (this.joiningRooms.has(roomId)) {
-      console.log(`[RoomManager] Room ${roomId} is already being joined, skipping duplicate`)
+      log.info('Room is already being joined, skipping duplicate', { roomId })
       return true
     }
 
     // Mark as joining
     this.joiningRooms.add(roomId)
 
+    try {
+      // Only the replica holding the room's lease transcribes it
+      let claimed: boolean
+      try {
+        claimed = await roomLeases.claim(roomId)
+      } catch (error) {
+        // Without the store we can't tell who owns the room; don't risk a double join
+        log.error('Could not claim room lease', { roomId, error })
+        return false
+      }
+
+      if (!claimed) {
+        log.info('Room is owned by another replica, skipping', { roomId })
+        return true
+      }
+
+      // Renew from the moment we hold the room; a slow join can outlast the TTL
+      let leaseLost = false
+      roomLeases.startRenewing(roomId, () => {
+        // Another replica took the room over (e.g. our renewals failed until the lease expired)
+        if (!this.activeRooms.has(roomId)) {
+          leaseLost = true
+          return
+        }
+        this.stopRoom(roomId).catch(error => {
+          log.error('Error stopping room after losing its lease', { roomId, error })
+        })
+      })
+
+      let started = false
+      try {
+        started = await this.joinRoom(roomId, resume)
+      } finally {
+        if (!started) await roomLeases.release(roomId)
+      }
+
+      if (started && leaseLost) {
+        log.warn('Lost lease on room while joining, leaving', { roomId })
+        await this.stopRoom(roomId)
+      }
+      return started
+    } finally {
+      this.joiningRooms.delete(roomId)
+    }
+  }
+
+  /**
+   * Join a room this replica holds the lease for
+   */
+  private async joinRoom(roomId: string, resume?: ResumedSession): Promise<boolean> {
     // Get room settings
     const settings = await getRoomSettings(roomId)
     if (!settings) {
-      console.error(`[RoomManager] Could not get settings for room ${roomId}`)
-      this.joiningRooms.delete(roomId)
+      log.error('Could not get room settings', { roomId })
       return false
     }
 
     // Check if transcription is enabled
     if (settings.transcriptionMode === 'off') {
-      console.log(`[RoomManager] Transcription is off for room ${roomId}`)
-      this.joiningRooms.delete(roomId)
+      log.info('Transcription is off for room', { roomId })
+      return false
+    }
+
+    // Post-call mode records speech during the meeting and transcribes it in batch afterwards.
+    // A resumed session keeps the mode it started in.
+    const mode = resume?.mode ?? (settings.transcriptionMode === 'post-call' ? 'post-call' : 'live')
+
+    // Resolve the speech-to-text provider (per-room setting or deployment default)
+    let provider: TranscriptionProvider
+    try {
+      provider = getTranscriptionProvider(settings.transcriptionProvider)
+    } catch (error) {
+      log.error('Could not resolve transcription provider', { roomId, error })
+      return false
+    }
+
+    if (mode === 'post-call' && !provider.transcribeRecording) {
+      log.error('Provider does not support post-call transcription', { roomId, provider: provider.name })
       return false
     }
 
-    // For post-call mode, we still join and transcribe live, but could handle differently
-    const mode = settings.transcriptionMode === 'post-call' ? 'post-call' : 'live'
+    // Refuse to join once the host's transcription budget is used up
+    const budget = await usageLedger.checkBudget(settings.hostId)
+    if (budget.remainingTokens !== null && budget.remainingTokens <= 0) {
+      log.info('Host has no transcription budget left, not joining', {
+        roomId,
+        hostId: settings.hostId,
+        usedTokens: Number(budget.usedTokens.toFixed(2)),
+        limitTokens: budget.limitTokens
+      })
+      return false
+    }
 
-    // Create session record
-    const sessionId = await createTranscriptionSession(roomId, mode)
+    // Create session record, or carry on the interrupted one
+    const sessionId = resume ? resume.sessionId : await createTranscriptionSession(roomId, mode)
+    const priorSpeechMs = resume?.speechDurationMs ?? 0
     if (!sessionId) {
-      console.error(`[RoomManager] Could not create session for room ${roomId}`)
-      this.joiningRooms.delete(roomId)
+      log.error('Could not create session', { roomId })
       return false
     }
 
+    const roomLog = log.child({ roomId, sessionId })
+
+    // Outbound sinks (global plus per-room overrides)
+    const sinks = sinkDispatcher.resolveSinks(settings.sinks)
+    const sinkContext: SinkContext = {
+      roomId,
+      sessionId,
+      skillsKitSessionId: settings.skillsKitSessionId
+    }
+
     // Create and start the bot
-    const bot = new LiveKitBot(roomId)
+    const bot = new LiveKitBot(roomId, provider, {
+      sessionId,
+      mode,
+      recordingDir: path.join(RECORDINGS_DIR, sessionId),
+      vad: settings.vad,
+      transcription: settings.transcription,
+      screenShareAudio: settings.screenShareAudio,
+      consent: settings.consent,
+      captions: settings.captions,
+      startedAt: resume?.startedAt
+    })
+
+    const translation = mode === 'live'
+      ? this.createTranslator(roomId, settings.translation, settings.transcription.language)
+      : undefined
+
+    const redactionCounts: RedactionCounts = {}
+    const analytics = new SessionAnalyticsTracker(roomId, sessionId)
+    let budgetExhausted = false
+
+    usageLedger.openSession({ sessionId, hostId: settings.hostId, roomId, mode }, {
+      onAlert: (alert: UsageAlert) => {
+        roomLog.info(alert.type === 'exhausted' ? 'Host has used up their transcription budget' : 'Host passed a transcription budget threshold', {
+          hostId: settings.hostId,
+          threshold: alert.threshold
+        })
+        broadcastUsageAlert(roomId, alert).catch(error => {
+          roomLog.error('Could not broadcast usage alert', { error })
+        })
+
+        if (alert.type === 'exhausted') {
+          budgetExhausted = true
+          this.stopRoom(roomId).catch(error => {
+            roomLog.error('Error stopping room after budget ran out', { error })
+          })
+        }
+      }
+    }, priorSpeechMs)
 
-    bot.on('transcript', async (event: TranscriptEvent) => {
-      await publishTranscript(event)
-      console.log(`[RoomManager] ${event.participantName}: "${event.text}"${event.isFinal ? ' (final)' : ''}`)
+    bot.on('speech', (activity: SpeechActivity) => {
+      analytics.recordSpeech(activity.participantId, activity.participantName, activity.startMs, activity.endMs)
+      usageLedger.recordSpeech(sessionId, activity.endMs - activity.startMs)
+    })
 
-      if (event.isFinal) {
-        await this.handleFinalTranscript(event)
+    bot.on('transcript', async (original: TranscriptEvent) => {
+      // The emitter doesn't await listeners, so a rejection here would go unhandled
+      try {
+        analytics.recordTurn(original)
+
+        // Redact before the transcript is stored or leaves the service
+        const { event, counts } = redactTranscript(original, settings.redaction)
+        if (original.isFinal && Object.keys(counts).length > 0) {
+          addRedactionCounts(redactionCounts, counts)
+          if (settings.redaction.keepOriginal) {
+            await storeTranscriptOriginal(original)
+          }
+        }
+        if (!event) return
+
+        transcriptHub.publish(event)
+        bot.publishCaption(event)
+        await publishTranscript(event)
+
+        if (event.isFinal) {
+          // The text is only written when debug logging is on
+          roomLog.debug('Final transcript', { participantId: event.participantId, segmentId: event.segmentId, text: event.text })
+        }
+        sinkDispatcher.dispatch(sinks, { type: 'transcript', event }, sinkContext)
+
+        // Translations follow the original: stored on its row and sent per language
+        if (translation && event.isFinal && !event.gap && !event.consent) {
+          translation.enqueue(event, async translations => {
+            await storeTranscriptEvent(event, translations)
+            await Promise.all(Object.entries(translations).map(([language, text]) =>
+              broadcastTranslation(event, language, text)
+            ))
+          })
+        }
+      } catch (error) {
+        roomLog.error('Error handling transcript', {
+          participantId: original.participantId,
+          segmentId: original.segmentId,
+          error
+        })
       }
     })
 
     bot.on('disconnected', () => {
-      console.log(`[RoomManager] Bot disconnected from room ${roomId}`)
+      roomLog.info('Bot disconnected')
       // Only call stopRoom if the room was fully registered (avoids race during join)
       if (this.activeRooms.has(roomId)) {
-        this.stopRoom(roomId)
+        this.stopRoom(roomId).catch(error => {
+          roomLog.error('Error stopping room after bot disconnected', { error })
+        })
       } else {
-        console.log(`[RoomManager] Ignoring disconnect for room ${roomId} (not yet active, still joining)`)
+        roomLog.info('Ignoring disconnect, room is still joining')
       }
     })
 
     try {
+      if (mode === 'live') {
+        transcriptHub.openRoom(roomId)
+      }
       await bot.join()
 
       this.activeRooms.set(roomId, {
@@ -169,22 +323,59 @@ class RoomManager {
         bot,
         sessionId,
         mode,
+        provider,
         startedAt: new Date(),
-        skillsKitSessionId: settings.skillsKitSessionId
+        sinks,
+        sinkContext,
+        redaction: settings.redaction,
+        redactionCounts,
+        analytics,
+        translation,
+        priorSpeechMs
       })
+      sinkDispatcher.dispatch(sinks, { type: 'lifecycle', state: 'started', timestamp: new Date() }, sinkContext)
 
-      this.joiningRooms.delete(roomId)
-      console.log(`[RoomManager] Started transcription for room ${roomId} (mode: ${mode})`)
+      roomLog.info(resume ? 'Resumed transcription' : 'Started transcription', { mode, provider: provider.name })
+
+      // Budget ran out while joining, before stopRoom could see the room
+      if (budgetExhausted) {
+        await this.stopRoom(roomId)
+      }
       return true
     } catch (error) {
-      this.joiningRooms.delete(roomId)
+      transcriptHub.closeRoom(roomId)
       // Clean up the bot if join failed
       try { await bot.leave() } catch { /* ignore cleanup errors */ }
-      console.error(`[RoomManager] Failed to start bot for room ${roomId}:`, error)
+      await translation?.close()
+      await usageLedger.closeSession(sessionId, priorSpeechMs)
+      roomLog.error('Failed to start bot', { error })
       return false
     }
   }
 
+  /**
+   * Set up live translation for a room with target languages. A translator
+   * that can't be created is logged and the room is transcribed without it.
+   */
+  private createTranslator(
+    roomId: string,
+    settings: TranslationSettings | undefined,
+    spokenLanguage: string | undefined
+  ): RoomTranslator | undefined {
+    if (!settings) return undefined
+
+    try {
+      const translator = getTranslator(settings.provider)
+      const sourceLanguage = spokenLanguage && spokenLanguage !== 'auto' ? spokenLanguage : undefined
+      const roomTranslator = new RoomTranslator(roomId, translator, settings.targetLanguages, sourceLanguage)
+      log.info('Translating room', { roomId, languages: roomTranslator.getTargetLanguages(), translator: translator.name })
+      return roomTranslator
+    } catch (error) {
+      log.error('Could not set up translation, continuing without it', { roomId, error })
+      return undefined
+    }
+  }
+
   /**
    * Stop transcription for a room
    */
@@ -199,16 +390,59 @@ class RoomManager {
     try {
       this.activeRooms.delete(roomId)
 
-      const { durationMs, speechDurationMs } = await activeRoom.bot.leave()
+      const left = await activeRoom.bot.leave()
+      const { durationMs, recordings } = left
+      // A resumed session's bot only counts speech since it rejoined
+      const speechDurationMs = left.speechDurationMs + activeRoom.priorSpeechMs
+
+      await saveSessionAnalytics(activeRoom.sessionId, activeRoom.analytics.getAnalytics(durationMs))
+
+      // Final cost is reconciled against the metered ledger
+      const tokens = await usageLedger.closeSession(activeRoom.sessionId, speechDurationMs)
+
+      if (activeRoom.mode === 'post-call') {
+        // Session stays in 'processing' until the batch job has stored the transcript
+        await completeTranscriptionSession(
+          activeRoom.sessionId,
+          durationMs,
+          speechDurationMs,
+          tokens,
+          'processing'
+        )
+
+        queuePostCallJob({
+          roomId,
+          sessionId: activeRoom.sessionId,
+          startedAt: activeRoom.bot.getStartedAt(),
+          provider: activeRoom.provider,
+          options: activeRoom.bot.getTranscriptionOptions(),
+          redaction: activeRoom.redaction,
+          recordings
+        })
+      } else {
+        await completeTranscriptionSession(
+          activeRoom.sessionId,
+          durationMs,
+          speechDurationMs,
+          tokens
+        )
+        await updateSessionRedactionCounts(activeRoom.sessionId, activeRoom.redactionCounts)
+      }
 
-      await completeTranscriptionSession(
-        activeRoom.sessionId,
+      sinkDispatcher.dispatch(activeRoom.sinks, {
+        type: 'lifecycle',
+        state: 'stopped',
+        timestamp: new Date(),
         durationMs,
         speechDurationMs
-      )
+      }, activeRoom.sinkContext)
 
+      await activeRoom.translation?.close()
       removeChannel(roomId)
-      console.log(`[RoomManager] Stopped transcription for room ${roomId}`)
+      transcriptHub.closeRoom(roomId)
+      metrics.removeRoom(roomId)
+      await roomLeases.release(roomId)
+      log.info('Stopped transcription', { roomId, sessionId: activeRoom.sessionId })
     } finally {
       this.stoppingRooms.delete(roomId)
     }
@@ -231,13 +465,135 @@ class RoomManager {
   /**
    * Get stats for a room
    */
-  getRoomStats(roomId: string): { startedAt: Date; mode: string } | null {
+  getRoomStats(roomId: string): {
+    startedAt: Date
+    mode: string
+    streams: ReturnType<LiveKitBot['getStreamStats']>
+  } | null {
     const activeRoom = this.activeRooms.get(roomId)
     if (!activeRoom) return null
 
     return {
       startedAt: activeRoom.startedAt,
-      mode: activeRoom.mode
+      mode: activeRoom.mode,
+      streams: activeRoom.bot.getStreamStats()
+    }
+  }
+
+  /**
+   * Live speaker analytics for an active room
+   */
+  getRoomAnalytics(roomId: string): SessionAnalytics | null {
+    const activeRoom = this.activeRooms.get(roomId)
+    if (!activeRoom) return null
+
+    const durationMs = Date.now() - activeRoom.bot.getStartedAt().getTime()
+    return activeRoom.analytics.getAnalytics(durationMs)
+  }
+
+  /**
+   * Reconcile now and then every lease TTL: pick up sessions and rooms left
+   * behind when a replica (or this process, before a restart) went away
+   */
+  watchOrphanedSessions(): void {
+    const reconcile = () => {
+      this.reconcile().catch(error => {
+        log.error('Error reconciling orphaned sessions', { error })
+      })
+    }
+
+    reconcile()
+    const timer = setInterval(reconcile, roomLeases.ttlMs)
+    timer.unref()
+  }
+
+  private async reconcile(): Promise<void> {
+    // A pass can outlast the interval while rooms are being rejoined
+    if (this.reconciling) return
+    this.reconciling = true
+
+    try {
+      await this.reconcileSessions()
+      await this.takeOverExpiredRooms()
+    } finally {
+      this.reconciling = false
+    }
+  }
+
+  /**
+   * Sessions still marked active that no live replica is running: rejoin the
+   * room and continue the session if the meeting is still going, otherwise
+   * close the session as interrupted
+   */
+  private async reconcileSessions(): Promise<void> {
+    for (const session of await getActiveTranscriptionSessions()) {
+      const { roomId, sessionId } = session
+
+      if (this.joiningRooms.has(roomId) || this.stoppingRooms.has(roomId)) continue
+      if (this.activeRooms.get(roomId)?.sessionId === sessionId) continue
+      // The owner's lease is still being renewed, so it is running the session
+      if (await roomLeases.isHeldElsewhere(roomId)) continue
+
+      try {
+        const usage = await estimateSessionUsage(session)
+
+        // A newer session has replaced it here, or the meeting is over
+        const resumable = !this.activeRooms.has(roomId) && await isLiveKitRoomActive(roomId)
+        if (resumable) {
+          log.info('Session was interrupted, rejoining', { roomId, sessionId })
+          if (await this.startRoom(roomId, { ...session, speechDurationMs: usage.speechDurationMs })) continue
+        }
+
+        await this.closeInterruptedSession(session, usage)
+      } catch (error) {
+        log.error('Could not reconcile session', { roomId, sessionId, error })
+      }
+    }
+  }
+
+  /**
+   * Record an orphaned session as interrupted, with duration and cost
+   * estimated from its stored transcript
+   */
+  private async closeInterruptedSession(
+    session: StoredSession,
+    usage: { durationMs: number; speechDurationMs: number }
+  ): Promise<void> {
+    const { roomId, sessionId, mode } = session
+
+    // Bill the estimate to the host's ledger, replacing any partly flushed row
+    const settings = await getRoomSettings(roomId)
+    const tokens = settings
+      ? await usageLedger.settleSession({ sessionId, hostId: settings.hostId, roomId, mode }, usage.speechDurationMs)
+      : tokensForSpeech(usage.speechDurationMs, mode)
+
+    await completeTranscriptionSession(
+      sessionId,
+      usage.durationMs,
+      usage.speechDurationMs,
+      tokens,
+      'interrupted',
+      new Date(session.startedAt.getTime() + usage.durationMs)
+    )
+    log.info('Closed interrupted session', { roomId, sessionId })
+  }
+
+  /**
+   * Take over rooms whose lease expired without being released (the owning
+   * replica crashed or lost its connection) but that had no session to resume
+   */
+  private async takeOverExpiredRooms(): Promise<void> {
+    for (const roomId of await roomLeases.listExpired()) {
+      if (this.activeRooms.has(roomId) || this.joiningRooms.has(roomId)) continue
+
+      // Don't resurrect a room that ended while nobody owned it
+      if (!(await isLiveKitRoomActive(roomId))) {
+        await roomLeases.removeExpired(roomId)
+        continue
+      }
+
+      log.info('Lease on room expired, taking over', { roomId })
+      await this.startRoom(roomId)
     }
   }
 
@@ -251,7 +607,7 @@ class RoomManager {
       await this.stopRoom(roomId)
     }
 
-    console.log(`[RoomManager] Stopped all ${roomIds.length} rooms`)
+    log.info('Stopped all rooms', { rooms: roomIds.length })
   }
 }
 
@@ -0,0 +1,262 @@
+/**
+ * Speaker Analytics
+ *
+ * Per-session talk-time and interaction stats: who spoke how much, how
+ * fast, for how long without pause, who talked over whom. Speech intervals
+ * come from VAD (on the meeting clock); turns and word counts come from
+ * final transcripts.
+ */
+
+import { TranscriptEvent } from './types'
+
+export interface SpeakerStats {
+  participantId: string
+  participantName: string
+  talkTimeMs: number
+  /** Share of all talk time in the session, 0-1 */
+  talkShare: number
+  turnCount: number
+  wordCount: number
+  wordsPerMinute: number
+  longestMonologueMs: number
+  /** Times this speaker started talking over someone who then yielded */
+  interruptions: number
+  /** Times this speaker was talked over and yielded */
+  interrupted: number
+  /** Time this speaker talked while someone else was also talking */
+  overlapMs: number
+}
+
+export interface SessionAnalytics {
+  roomId: string
+  sessionId: string
+  durationMs: number
+  totalTalkTimeMs: number
+  /** Time with two or more people talking at once */
+  overlapMs: number
+  speakers: SpeakerStats[]
+}
+
+interface Interval {
+  startMs: number
+  endMs: number
+}
+
+interface SpeakerRecord {
+  participantId: string
+  participantName: string
+  intervals: Interval[]
+  turnCount: number
+  wordCount: number
+  turnDurationMs: number
+}
+
+// Pauses up to this long don't end a monologue, unless someone else speaks in them
+const MONOLOGUE_PAUSE_MS = 2000
+// Talking over someone counts as an interruption only past a backchannel ("mm-hm")
+const INTERRUPTION_MIN_MS = 1000
+// Chunks closer than this are treated as one interval (float drift on the audio clock)
+const CONTIGUOUS_MS = 1
+
+/**
+ * Merge sorted intervals into a disjoint union
+ */
+function union(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.startMs - b.startMs)
+  const merged: Interval[] = []
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && interval.startMs <= last.endMs + CONTIGUOUS_MS) {
+      last.endMs = Math.max(last.endMs, interval.endMs)
+    } else {
+      merged.push({ ...interval })
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Intersection of two disjoint, sorted interval lists
+ */
+function intersect(a: Interval[], b: Interval[]): Interval[] {
+  const result: Interval[] = []
+  let i = 0
+  let j = 0
+
+  while (i < a.length && j < b.length) {
+    const startMs = Math.max(a[i].startMs, b[j].startMs)
+    const endMs = Math.min(a[i].endMs, b[j].endMs)
+    if (startMs < endMs) result.push({ startMs, endMs })
+
+    if (a[i].endMs < b[j].endMs) i++
+    else j++
+  }
+
+  return result
+}
+
+function totalMs(intervals: Interval[]): number {
+  return intervals.reduce((sum, interval) => sum + interval.endMs - interval.startMs, 0)
+}
+
+function countWords(event: TranscriptEvent): number {
+  return event.words.length > 0 ? event.words.length : event.text.split(/\s+/).filter(Boolean).length
+}
+
+export class SessionAnalyticsTracker {
+  private roomId: string
+  private sessionId: string
+  private speakers: Map<string, SpeakerRecord> = new Map()
+
+  constructor(roomId: string, sessionId: string) {
+    this.roomId = roomId
+    this.sessionId = sessionId
+  }
+
+  private getSpeaker(participantId: string, participantName: string): SpeakerRecord {
+    let speaker = this.speakers.get(participantId)
+    if (!speaker) {
+      speaker = { participantId, participantName, intervals: [], turnCount: 0, wordCount: 0, turnDurationMs: 0 }
+      this.speakers.set(participantId, speaker)
+    }
+    return speaker
+  }
+
+  /**
+   * Record audio VAD classed as speech, in meeting ms
+   */
+  recordSpeech(participantId: string, participantName: string, startMs: number, endMs: number): void {
+    const { intervals } = this.getSpeaker(participantId, participantName)
+    const last = intervals[intervals.length - 1]
+
+    // Chunks arrive in order, so extending the last interval keeps the list short
+    if (last && startMs <= last.endMs + CONTIGUOUS_MS) {
+      last.endMs = Math.max(last.endMs, endMs)
+    } else {
+      intervals.push({ startMs, endMs })
+    }
+  }
+
+  /**
+   * Record a final transcript turn
+   */
+  recordTurn(event: TranscriptEvent): void {
+    if (!event.isFinal || event.gap || event.consent) return
+
+    const speaker = this.getSpeaker(event.participantId, event.participantName)
+    speaker.turnCount++
+    speaker.wordCount += countWords(event)
+    speaker.turnDurationMs += Math.max(0, event.endMs - event.startMs)
+  }
+
+  /**
+   * Compute stats for the session so far
+   */
+  getAnalytics(durationMs: number): SessionAnalytics {
+    const speakers = Array.from(this.speakers.values())
+    const speech = new Map(speakers.map(speaker => [speaker.participantId, union(speaker.intervals)]))
+    const allSpeech = Array.from(speech.values())
+    const totalTalkTimeMs = allSpeech.reduce((sum, intervals) => sum + totalMs(intervals), 0)
+
+    const interruptions = this.countInterruptions(speech)
+
+    const stats = speakers.map((speaker): SpeakerStats => {
+      const own = speech.get(speaker.participantId)!
+      const others = union(allSpeech.filter(intervals => intervals !== own).flat())
+      const talkTimeMs = totalMs(own)
+      // Words per minute over the transcribed turns, or VAD talk time if turns have no timings
+      const speakingMs = speaker.turnDurationMs > 0 ? speaker.turnDurationMs : talkTimeMs
+
+      return {
+        participantId: speaker.participantId,
+        participantName: speaker.participantName,
+        talkTimeMs,
+        talkShare: totalTalkTimeMs > 0 ? talkTimeMs / totalTalkTimeMs : 0,
+        turnCount: speaker.turnCount,
+        wordCount: speaker.wordCount,
+        wordsPerMinute: speakingMs > 0 ? Math.round(speaker.wordCount / (speakingMs / 60000)) : 0,
+        longestMonologueMs: this.longestMonologue(own, others),
+        interruptions: interruptions.made.get(speaker.participantId) ?? 0,
+        interrupted: interruptions.suffered.get(speaker.participantId) ?? 0,
+        overlapMs: totalMs(intersect(own, others))
+      }
+    })
+
+    // Time covered by at least two speakers
+    let overlap: Interval[] = []
+    allSpeech.forEach((intervals, index) => {
+      const later = union(allSpeech.slice(index + 1).flat())
+      overlap = union([...overlap, ...intersect(intervals, later)])
+    })
+
+    return {
+      roomId: this.roomId,
+      sessionId: this.sessionId,
+      durationMs,
+      totalTalkTimeMs,
+      overlapMs: totalMs(overlap),
+      speakers: stats.sort((a, b) => b.talkTimeMs - a.talkTimeMs)
+    }
+  }
+
+  /**
+   * Longest stretch of a speaker's speech, bridging short pauses nobody else filled
+   */
+  private longestMonologue(own: Interval[], others: Interval[]): number {
+    let longest = 0
+    let current: Interval | null = null
+
+    for (const interval of own) {
+      const pause = current ? { startMs: current.endMs, endMs: interval.startMs } : null
+      const bridged = current && pause &&
+        pause.endMs - pause.startMs <= MONOLOGUE_PAUSE_MS &&
+        intersect([pause], others).length === 0
+
+      if (current && bridged) {
+        current.endMs = interval.endMs
+      } else {
+        current = { ...interval }
+      }
+      longest = Math.max(longest, current.endMs - current.startMs)
+    }
+
+    return longest
+  }
+
+  /**
+   * A speaker interrupts when they start talking while someone else is, keep
+   * going past a backchannel, and the other speaker stops first
+   */
+  private countInterruptions(speech: Map<string, Interval[]>): { made: Map<string, number>; suffered: Map<string, number> } {
+    const made = new Map<string, number>()
+    const suffered = new Map<string, number>()
+
+    for (const [interrupterId, interrupterSpeech] of speech) {
+      for (const [speakerId, speakerSpeech] of speech) {
+        if (speakerId === interrupterId) continue
+
+        // Both lists are sorted and disjoint, so one pass finds the other speaker's
+        // interval (if any) in progress at each start
+        let index = 0
+        for (const interval of interrupterSpeech) {
+          while (index < speakerSpeech.length && speakerSpeech[index].endMs <= interval.startMs) index++
+          const other = speakerSpeech[index]
+
+          const talkedOver = !!other &&
+            other.startMs < interval.startMs &&
+            other.endMs < interval.endMs &&
+            interval.endMs - interval.startMs >= INTERRUPTION_MIN_MS
+
+          if (talkedOver) {
+            made.set(interrupterId, (made.get(interrupterId) ?? 0) + 1)
+            suffered.set(speakerId, (suffered.get(speakerId) ?? 0) + 1)
+          }
+        }
+      }
+    }
+
+    return { made, suffered }
+  }
+}
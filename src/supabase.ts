@@ -2,8 +2,22 @@
  * Supabase client for storing transcripts and broadcasting events
  */
 
+import os from 'os'
+import path from 'path'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
-import { TranscriptEvent } from './types'
+import { CaptionOptions, StoredSession, TranscriptEvent, TranscriptionOptions } from './types'
+import { TranscriptSegment } from './transcript-export'
+import { SpoolRow, SpoolWriteError, TranscriptSpool } from './transcript-spool'
+import { SessionAnalytics } from './speaker-analytics'
+import { UsageAlert, UsageLedgerEntry } from './usage-ledger'
+import { getDefaultRedactionPolicy, isRedactionAction, RedactionCounts, RedactionPolicy } from './redaction'
+import { isVadStrategyName, VadConfig } from './vad'
+import { ConsentPolicy, getDefaultConsentPolicy, isParticipantKindName } from './participant-consent'
+import { TranslationSettings, Translations } from './translation'
+import { supabaseWriteFailures } from './metrics'
+import { createLogger } from './logger'
+
+const log = createLogger('Supabase')
 
 let supabase: SupabaseClient | null = null
 
@@ -22,6 +36,158 @@ export function getSupabase(): SupabaseClient {
   return supabase
 }
 
+// Rows requested per page; PostgREST caps each response (max-rows, 1000 by default)
+const PAGE_SIZE = 1000
+
+/**
+ * Fetch every row of a query a page at a time, so long sessions aren't
+ * silently truncated at max-rows. The query must have a stable order.
+ */
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (;;) {
+    const { data, error } = await fetchPage(rows.length, rows.length + PAGE_SIZE - 1)
+    if (error) throw new Error(error.message)
+    // Stop on an empty page rather than a short one, in case max-rows is below PAGE_SIZE
+    if (!data || data.length === 0) return rows
+    rows.push(...data)
+  }
+}
+
+/**
+ * Map snake_case VAD settings from rooms.settings.vad onto VadConfig
+ */
+function parseVadSettings(raw: Record<string, unknown> | undefined): Partial<VadConfig> | undefined {
+  if (!raw) return undefined
+
+  const fields: Record<string, Exclude<keyof VadConfig, 'strategy'>> = {
+    min_threshold: 'minThreshold',
+    attack_ratio: 'attackRatio',
+    release_ratio: 'releaseRatio',
+    hangover_ms: 'hangoverMs',
+    pre_roll_ms: 'preRollMs',
+    noise_window_ms: 'noiseWindowMs'
+  }
+
+  const config: Partial<VadConfig> = {}
+  for (const [key, field] of Object.entries(fields)) {
+    if (typeof raw[key] === 'number') {
+      config[field] = raw[key] as number
+    }
+  }
+
+  if (isVadStrategyName(raw.strategy)) {
+    config.strategy = raw.strategy
+  }
+
+  return config
+}
+
+/**
+ * Map snake_case recognition settings from rooms.settings.transcription onto TranscriptionOptions
+ */
+function parseTranscriptionOptions(raw: Record<string, unknown> | undefined): TranscriptionOptions {
+  if (!raw) return {}
+
+  return {
+    language: typeof raw.language === 'string' ? raw.language : undefined,
+    speechModel: typeof raw.speech_model === 'string' ? raw.speech_model : undefined,
+    keyterms: Array.isArray(raw.keyterms)
+      ? raw.keyterms.filter((term): term is string => typeof term === 'string')
+      : undefined,
+    formatTurns: typeof raw.format_turns === 'boolean' ? raw.format_turns : undefined,
+    filterProfanity: typeof raw.filter_profanity === 'boolean' ? raw.filter_profanity : undefined
+  }
+}
+
+/**
+ * Map snake_case redaction settings from rooms.settings.redaction onto the default policy
+ */
+function parseRedactionPolicy(raw: Record<string, unknown> | undefined): RedactionPolicy {
+  const policy = getDefaultRedactionPolicy()
+  if (!raw) return policy
+
+  if (typeof raw.enabled === 'boolean') policy.enabled = raw.enabled
+  if (isRedactionAction(raw.default)) policy.defaultAction = raw.default
+  if (typeof raw.keep_original === 'boolean') policy.keepOriginal = raw.keep_original
+
+  if (raw.types && typeof raw.types === 'object') {
+    for (const [type, action] of Object.entries(raw.types)) {
+      if (isRedactionAction(action)) policy.actions[type] = action
+    }
+  }
+
+  return policy
+}
+
+/**
+ * Map snake_case consent settings from rooms.settings.consent onto the default policy
+ */
+function parseConsentPolicy(raw: Record<string, unknown> | undefined): ConsentPolicy {
+  const policy = getDefaultConsentPolicy()
+  if (!raw) return policy
+
+  if (Array.isArray(raw.exclude_identities)) {
+    policy.excludeIdentities = raw.exclude_identities.filter((pattern): pattern is string => typeof pattern === 'string')
+  }
+  if (Array.isArray(raw.exclude_kinds)) {
+    policy.excludeKinds = raw.exclude_kinds.filter(isParticipantKindName)
+  }
+  if (typeof raw.require_opt_in === 'boolean') policy.requireOptIn = raw.require_opt_in
+
+  return policy
+}
+
+/**
+ * Map snake_case translation settings from rooms.settings.translation
+ */
+function parseTranslationSettings(raw: Record<string, unknown> | undefined): TranslationSettings | undefined {
+  if (!raw || !Array.isArray(raw.target_languages)) return undefined
+
+  const targetLanguages = raw.target_languages.filter((language): language is string => typeof language === 'string' && language !== '')
+  if (targetLanguages.length === 0) return undefined
+
+  return {
+    targetLanguages,
+    provider: typeof raw.provider === 'string' ? raw.provider : undefined
+  }
+}
+
+const DEFAULT_ANNOUNCEMENT = 'This meeting is being transcribed.'
+
+/**
+ * Map snake_case caption settings from rooms.settings.captions onto the
+ * CAPTIONS_* defaults. Publishing captions is off unless enabled.
+ */
+function parseCaptionOptions(raw: Record<string, unknown> | undefined): CaptionOptions {
+  const announce = raw?.announce ?? process.env.CAPTIONS_ANNOUNCE
+  const dataTopic = raw?.data_topic ?? process.env.CAPTIONS_DATA_TOPIC
+
+  let announcement: string | null = null
+  if (announce === true || announce === 'true') announcement = DEFAULT_ANNOUNCEMENT
+  else if (typeof announce === 'string' && announce !== 'false' && announce !== '') announcement = announce
+
+  return {
+    transcriptionEvents: typeof raw?.transcription_events === 'boolean'
+      ? raw.transcription_events
+      : process.env.CAPTIONS_TRANSCRIPTION_EVENTS === 'true',
+    dataTopic: typeof dataTopic === 'string' && dataTopic !== '' ? dataTopic : null,
+    announcement
+  }
+}
+
+/**
+ * Whether screen-share audio is transcribed: rooms.settings.screen_share_audio,
+ * else SCREEN_SHARE_AUDIO, else excluded
+ */
+function parseScreenShareAudio(raw: unknown): 'transcribe' | 'exclude' {
+  const value = raw ?? process.env.SCREEN_SHARE_AUDIO
+  return value === 'transcribe' ? 'transcribe' : 'exclude'
+}
+
 /**
  * Get room settings including transcription mode
  */
@@ -29,6 +195,16 @@ export async function getRoomSettings(roomId: string): Promise<{
   transcriptionMode: 'off' | 'post-call' | 'live'
   hostId: string
   skillsKitSessionId?: string
+  transcriptionProvider?: string
+  vad?: Partial<VadConfig>
+  transcription: TranscriptionOptions
+  redaction: RedactionPolicy
+  screenShareAudio: 'transcribe' | 'exclude'
+  consent: ConsentPolicy
+  captions: CaptionOptions
+  translation?: TranslationSettings
+  // Raw settings.sinks, parsed by transcript-sinks
+  sinks?: unknown
 } | null> {
   const { data, error } = await getSupabase()
     .from('rooms')
@@ -37,17 +213,27 @@ export async function getRoomSettings(roomId: string): Promise<{
     .single()
 
   if (error || !data) {
-    console.error('[Supabase] Error fetching room settings:', error)
+    log.error('Error fetching room settings', { roomId, error })
     return null
   }
 
   const result = {
     transcriptionMode: data.settings?.transcription_mode || 'off',
     hostId: data.host_id,
-    skillsKitSessionId: data.skillskit_session_id
+    skillsKitSessionId: data.skillskit_session_id,
+    transcriptionProvider: data.settings?.transcription_provider,
+    vad: parseVadSettings(data.settings?.vad),
+    transcription: parseTranscriptionOptions(data.settings?.transcription),
+    redaction: parseRedactionPolicy(data.settings?.redaction),
+    screenShareAudio: parseScreenShareAudio(data.settings?.screen_share_audio),
+    consent: parseConsentPolicy(data.settings?.consent),
+    captions: parseCaptionOptions(data.settings?.captions),
+    translation: parseTranslationSettings(data.settings?.translation),
+    sinks: data.settings?.sinks
   }
 
-  console.log('[Supabase] Room settings for', roomId, ':', result)
+  // Settings can be large and include sink URLs, so they're only logged at debug
+  log.debug('Room settings', { roomId, settings: result })
   return result
 }
 
@@ -70,7 +256,8 @@ export async function createTranscriptionSession(
     .single()
 
   if (error) {
-    console.error('[Supabase] Error creating session:', error)
+    log.error('Error creating session', { roomId, error })
+    supabaseWriteFailures.inc({ table: 'live_transcription_sessions' })
     return null
   }
 
@@ -78,111 +265,523 @@ export async function createTranscriptionSession(
 }
 
 /**
- * Complete a transcription session and calculate costs
+ * Complete a transcription session and record its cost.
+ * `tokens` is the session's usage from the ledger (billed on speech only - VAD savings!).
+ * Interrupted sessions pass their estimated end rather than now.
  */
 export async function completeTranscriptionSession(
   sessionId: string,
   durationMs: number,
-  speechDurationMs: number
+  speechDurationMs: number,
+  tokens: number,
+  status: 'completed' | 'processing' | 'interrupted' = 'completed',
+  endedAt: Date = new Date()
 ): Promise<void> {
   const durationSeconds = Math.ceil(durationMs / 1000)
   const speechSeconds = Math.ceil(speechDurationMs / 1000)
-
-  // Calculate token cost based on actual speech duration (VAD savings!)
-  // Using 8 tokens/hr for live transcription
-  const speechHours = speechSeconds / 3600
-  const tokenCost = Math.ceil(speechHours * 8)
+  const tokenCost = Math.ceil(tokens)
 
   const { error } = await getSupabase()
     .from('live_transcription_sessions')
     .update({
-      status: 'completed',
-      ended_at: new Date().toISOString(),
+      status,
+      ended_at: endedAt.toISOString(),
       duration: durationSeconds,
       token_cost: tokenCost
     })
     .eq('id', sessionId)
 
   if (error) {
-    console.error('[Supabase] Error completing session:', error)
+    log.error('Error completing session', { sessionId, error })
+    supabaseWriteFailures.inc({ table: 'live_transcription_sessions' })
   }
 
-  console.log(`[Supabase] Session ${sessionId} completed:`, {
+  log.info('Session ended', {
+    sessionId,
+    status,
     totalDuration: `${Math.round(durationSeconds / 60)}min`,
     speechDuration: `${Math.round(speechSeconds / 60)}min`,
-    vadSavings: `${Math.round((1 - speechSeconds / durationSeconds) * 100)}%`,
+    vadSavings: `${durationSeconds > 0 ? Math.round((1 - speechSeconds / durationSeconds) * 100) : 0}%`,
     tokenCost
   })
 }
 
 /**
- * Store a transcript event in the database
+ * Sessions still marked active, oldest first
+ */
+export async function getActiveTranscriptionSessions(): Promise<StoredSession[]> {
+  const { data, error } = await getSupabase()
+    .from('live_transcription_sessions')
+    .select('id, room_id, mode, started_at')
+    .eq('status', 'active')
+    .order('started_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Error fetching active sessions: ${error.message}`)
+  }
+
+  return (data || []).map(row => ({
+    sessionId: row.id,
+    roomId: row.room_id,
+    mode: row.mode === 'post-call' ? 'post-call' : 'live',
+    startedAt: new Date(row.started_at)
+  }))
+}
+
+/**
+ * Estimate how long a session ran and how much speech it billed from its
+ * stored final transcript events, for sessions that ended without a record
+ */
+export async function estimateSessionUsage(
+  session: StoredSession
+): Promise<{ durationMs: number; speechDurationMs: number }> {
+  const rows = await fetchAllRows((from, to) => getSupabase()
+    .from('live_transcript_events')
+    .select('start_ms, end_ms, is_gap, created_at')
+    .eq('session_id', session.sessionId)
+    .eq('is_final', true)
+    .order('created_at', { ascending: true })
+    .order('segment_id', { ascending: true })
+    .range(from, to))
+
+  let durationMs = 0
+  let speechDurationMs = 0
+
+  for (const row of rows) {
+    // Rows written before meeting-relative timings existed only have created_at
+    const createdMs = new Date(row.created_at).getTime() - session.startedAt.getTime()
+    const startMs = row.start_ms ?? createdMs
+    const endMs = row.end_ms ?? createdMs
+
+    durationMs = Math.max(durationMs, endMs, createdMs)
+    // Gap markers cover time the bot couldn't hear, not billed speech
+    if (!row.is_gap) speechDurationMs += Math.max(0, endMs - startMs)
+  }
+
+  return { durationMs, speechDurationMs }
+}
+
+/**
+ * A host's token limit and the start of the current quota period
  */
-export async function storeTranscriptEvent(event: TranscriptEvent): Promise<void> {
+export async function getHostQuota(hostId: string): Promise<{ tokenLimit: number | null; periodStart?: Date } | null> {
+  const { data, error } = await getSupabase()
+    .from('host_quotas')
+    .select('token_limit, period_start')
+    .eq('host_id', hostId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Error fetching host quota: ${error.message}`)
+  }
+  if (!data) return null
+
+  return {
+    tokenLimit: data.token_limit ?? null,
+    periodStart: data.period_start ? new Date(data.period_start) : undefined
+  }
+}
+
+/**
+ * Ledger usage per session for a host, optionally since the start of a quota period
+ */
+export async function getHostLedgerUsage(
+  hostId: string,
+  since?: Date
+): Promise<Array<{ sessionId: string; tokens: number }>> {
+  let query = getSupabase()
+    .from('host_usage_ledger')
+    .select('session_id, tokens')
+    .eq('host_id', hostId)
+
+  if (since) {
+    query = query.gte('updated_at', since.toISOString())
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Error fetching host usage: ${error.message}`)
+  }
+
+  return (data || []).map(row => ({ sessionId: row.session_id, tokens: Number(row.tokens) }))
+}
+
+/**
+ * Write a session's usage ledger row (one row per session, updated as speech accrues)
+ */
+export async function upsertUsageLedgerEntry(entry: UsageLedgerEntry): Promise<void> {
   const { error } = await getSupabase()
+    .from('host_usage_ledger')
+    .upsert({
+      session_id: entry.sessionId,
+      host_id: entry.hostId,
+      room_id: entry.roomId,
+      mode: entry.mode,
+      speech_seconds: entry.speechSeconds,
+      tokens: entry.tokens,
+      status: entry.status,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'session_id' })
+
+  if (error) {
+    log.error('Error writing usage ledger', { roomId: entry.roomId, sessionId: entry.sessionId, error })
+    supabaseWriteFailures.inc({ table: 'host_usage_ledger' })
+  }
+}
+
+/**
+ * Update the status of a transcription session (e.g. after post-call processing)
+ */
+export async function updateTranscriptionSessionStatus(
+  sessionId: string,
+  status: 'processing' | 'completed' | 'failed'
+): Promise<void> {
+  const { error } = await getSupabase()
+    .from('live_transcription_sessions')
+    .update({ status })
+    .eq('id', sessionId)
+
+  if (error) {
+    log.error('Error updating session status', { sessionId, error })
+    supabaseWriteFailures.inc({ table: 'live_transcription_sessions' })
+  }
+}
+
+/**
+ * Write a transcript row, upserting on segment_id so a later event for the
+ * same turn (or a replay of the same event) replaces the earlier row
+ */
+async function writeTranscriptRow(row: SpoolRow): Promise<void> {
+  const { error, status } = await getSupabase()
     .from('live_transcript_events')
-    .insert({
+    .upsert(row, { onConflict: 'segment_id' })
+
+  if (error) {
+    supabaseWriteFailures.inc({ table: 'live_transcript_events' })
+    throw new SpoolWriteError(`Error storing transcript event: ${error.message}`, isRowRejected(error.code, status))
+  }
+}
+
+// Statuses PostgREST answers for a malformed, conflicting or unprocessable row
+const ROW_REJECTED_STATUSES = [400, 409, 422]
+
+/**
+ * Whether a write failed because of the row itself: Postgres data exceptions
+ * (22xxx) and constraint violations (23xxx), or a bad request, conflict or
+ * unprocessable entity. Anything else (auth, proxies, rate limits) is retried.
+ */
+function isRowRejected(code: string | undefined, status: number): boolean {
+  if (code && /^2[23]/.test(code)) return true
+  return ROW_REJECTED_STATUSES.includes(status)
+}
+
+// Transcript rows go through a local spool so Supabase outages don't lose them
+const transcriptSpool = new TranscriptSpool(
+  process.env.TRANSCRIPT_SPOOL_DIR || path.join(os.tmpdir(), 'meetingburner-spool'),
+  writeTranscriptRow
+)
+
+/**
+ * Replay rows left in the spool by a previous process
+ */
+export function startTranscriptSpool(): Promise<void> {
+  return transcriptSpool.start()
+}
+
+/**
+ * Number of transcript rows not yet stored in Supabase
+ */
+export function getTranscriptSpoolBacklog(): number {
+  return transcriptSpool.getBacklog()
+}
+
+/**
+ * Wait until the spooled rows for these segments are stored (or dead-lettered)
+ */
+export function waitForTranscriptEvents(segmentIds: Iterable<string>): Promise<void> {
+  return transcriptSpool.whenWritten(segmentIds)
+}
+
+/**
+ * Store a transcript event in the database.
+ * The row is spooled to disk first and written (with retries) in order;
+ * the segment id is its idempotency key. Storing it again with translations
+ * fills in the translations column (jsonb, keyed by language).
+ */
+export async function storeTranscriptEvent(event: TranscriptEvent, translations?: Translations): Promise<void> {
+  const row: SpoolRow = {
+    room_id: event.roomId,
+    session_id: event.sessionId,
+    segment_id: event.segmentId,
+    speaker_id: event.participantId,
+    speaker_name: event.participantName,
+    text: event.text,
+    is_final: event.isFinal,
+    confidence: event.confidence,
+    start_ms: Math.round(event.startMs),
+    end_ms: Math.round(event.endMs),
+    words: event.words,
+    is_gap: event.gap ?? false,
+    consent: event.consent ?? null,
+    created_at: event.timestamp.toISOString(),
+    ...(translations ? { translations } : {})
+  }
+
+  try {
+    await transcriptSpool.enqueue(event.segmentId, row)
+  } catch (error) {
+    // Spool unavailable (e.g. disk full): fall back to a direct write
+    log.error('Error spooling transcript event', { roomId: event.roomId, sessionId: event.sessionId, error })
+    await writeTranscriptRow(row).catch(writeError => {
+      log.error('Error storing transcript event', { roomId: event.roomId, sessionId: event.sessionId, error: writeError })
+    })
+  }
+}
+
+/**
+ * Keep the unredacted text of a redacted event in the restricted originals
+ * table (no client access; service role only)
+ */
+export async function storeTranscriptOriginal(event: TranscriptEvent): Promise<void> {
+  const { error } = await getSupabase()
+    .from('live_transcript_originals')
+    .upsert({
       room_id: event.roomId,
+      session_id: event.sessionId,
+      segment_id: event.segmentId,
       speaker_id: event.participantId,
-      speaker_name: event.participantName,
       text: event.text,
-      is_final: event.isFinal,
-      confidence: event.confidence,
+      words: event.words,
       created_at: event.timestamp.toISOString()
-    })
+    }, { onConflict: 'segment_id' })
+
+  if (error) {
+    log.error('Error storing original transcript', { roomId: event.roomId, sessionId: event.sessionId, error })
+    supabaseWriteFailures.inc({ table: 'live_transcript_originals' })
+  }
+}
+
+/**
+ * Record how many PII matches were redacted in a session, by type
+ */
+export async function updateSessionRedactionCounts(sessionId: string, counts: RedactionCounts): Promise<void> {
+  const { error } = await getSupabase()
+    .from('live_transcription_sessions')
+    .update({ redaction_counts: counts })
+    .eq('id', sessionId)
+
+  if (error) {
+    log.error('Error updating redaction counts', { sessionId, error })
+    supabaseWriteFailures.inc({ table: 'live_transcription_sessions' })
+  }
+}
+
+/**
+ * Save a session's speaker analytics
+ */
+export async function saveSessionAnalytics(sessionId: string, analytics: SessionAnalytics): Promise<void> {
+  const { error } = await getSupabase()
+    .from('live_transcription_sessions')
+    .update({ analytics })
+    .eq('id', sessionId)
 
   if (error) {
-    console.error('[Supabase] Error storing transcript event:', error)
+    log.error('Error saving session analytics', { sessionId, error })
+    supabaseWriteFailures.inc({ table: 'live_transcription_sessions' })
   }
 }
 
+/**
+ * Load saved speaker analytics for a session.
+ * Without a session id, the room's most recent session is used.
+ */
+export async function getSessionAnalytics(roomId: string, sessionId?: string): Promise<SessionAnalytics | null> {
+  let query = getSupabase()
+    .from('live_transcription_sessions')
+    .select('analytics')
+    .eq('room_id', roomId)
+
+  query = sessionId
+    ? query.eq('id', sessionId)
+    : query.order('started_at', { ascending: false }).limit(1)
+
+  const { data, error } = await query.maybeSingle()
+
+  if (error) {
+    log.error('Error fetching session analytics', { roomId, sessionId, error })
+    return null
+  }
+
+  return data?.analytics ?? null
+}
+
+/**
+ * Load the stored final transcript for a session, oldest first.
+ * Without a session id, the room's most recent session is used.
+ */
+export async function getSessionTranscript(
+  roomId: string,
+  sessionId?: string
+): Promise<{ sessionId: string; startedAt: Date; segments: TranscriptSegment[] } | null> {
+  let sessionQuery = getSupabase()
+    .from('live_transcription_sessions')
+    .select('id, started_at')
+    .eq('room_id', roomId)
+
+  sessionQuery = sessionId
+    ? sessionQuery.eq('id', sessionId)
+    : sessionQuery.order('started_at', { ascending: false }).limit(1)
+
+  const { data: session, error: sessionError } = await sessionQuery.maybeSingle()
+
+  if (sessionError || !session) {
+    if (sessionError) log.error('Error fetching session', { roomId, sessionId, error: sessionError })
+    return null
+  }
+
+  let rows
+  try {
+    // Speech only: gap markers and consent changes aren't anyone's words
+    rows = await fetchAllRows((from, to) => getSupabase()
+      .from('live_transcript_events')
+      .select('speaker_id, speaker_name, text, confidence, start_ms, end_ms, words, created_at')
+      .eq('session_id', session.id)
+      .eq('is_final', true)
+      .not('is_gap', 'is', true)
+      .is('consent', null)
+      .order('created_at', { ascending: true })
+      .order('segment_id', { ascending: true })
+      .range(from, to))
+  } catch (error) {
+    log.error('Error fetching transcript events', { roomId, sessionId: session.id, error })
+    return null
+  }
+
+  const startedAt = new Date(session.started_at)
+
+  const segments: TranscriptSegment[] = rows.map(row => {
+    // Rows written before meeting-relative timings existed only have created_at
+    const fallbackMs = new Date(row.created_at).getTime() - startedAt.getTime()
+
+    return {
+      speakerId: row.speaker_id,
+      speakerName: row.speaker_name,
+      text: row.text,
+      confidence: row.confidence,
+      startMs: row.start_ms ?? fallbackMs,
+      endMs: row.end_ms ?? fallbackMs,
+      words: row.words ?? []
+    }
+  })
+
+  return { sessionId: session.id, startedAt, segments }
+}
+
 /**
  * Broadcast a transcript event via Supabase Realtime.
  * Reuses a single channel per room to avoid leaking subscriptions.
  */
 const channels: Map<string, ReturnType<SupabaseClient['channel']>> = new Map()
 
-function getChannel(roomId: string) {
-  let channel = channels.get(roomId)
+/**
+ * The room's transcript channel, or its channel for translations into a language
+ */
+function getChannel(roomId: string, language?: string) {
+  const topic = language ? `room:${roomId}:transcript:${language}` : `room:${roomId}:transcript`
+  let channel = channels.get(topic)
   if (!channel) {
-    channel = getSupabase().channel(`room:${roomId}:transcript`)
+    channel = getSupabase().channel(topic)
     channel.subscribe()
-    channels.set(roomId, channel)
+    channels.set(topic, channel)
   }
   return channel
 }
 
+/**
+ * Remove the room's transcript channel and any translation channels
+ */
 export function removeChannel(roomId: string) {
-  const channel = channels.get(roomId)
-  if (channel) {
-    getSupabase().removeChannel(channel)
-    channels.delete(roomId)
+  const prefix = `room:${roomId}:transcript`
+  for (const [topic, channel] of channels) {
+    if (topic === prefix || topic.startsWith(`${prefix}:`)) {
+      getSupabase().removeChannel(channel)
+      channels.delete(topic)
+    }
   }
 }
 
+/**
+ * Payload shape shared by every live transcript channel (Realtime, SSE, WebSocket)
+ */
+export function toTranscriptPayload(event: TranscriptEvent) {
+  return {
+    speaker: event.participantName,
+    speakerId: event.participantId,
+    sessionId: event.sessionId,
+    segmentId: event.segmentId,
+    text: event.text,
+    isFinal: event.isFinal,
+    confidence: event.confidence,
+    timestamp: event.timestamp.toISOString(),
+    startMs: event.startMs,
+    endMs: event.endMs,
+    words: event.words,
+    gap: event.gap ?? false,
+    consent: event.consent ?? null
+  }
+}
+
+export type TranscriptPayload = ReturnType<typeof toTranscriptPayload>
+
 export async function broadcastTranscript(event: TranscriptEvent): Promise<void> {
   const channel = getChannel(event.roomId)
 
   await channel.send({
+    type: 'broadcast',
+    event: 'transcript',
+    payload: toTranscriptPayload(event)
+  })
+}
+
+/**
+ * Broadcast a final transcript's translation on the room's channel for that language.
+ * Word timings are those of the original language, so they are left out.
+ */
+export async function broadcastTranslation(event: TranscriptEvent, language: string, text: string): Promise<void> {
+  await getChannel(event.roomId, language).send({
     type: 'broadcast',
     event: 'transcript',
     payload: {
-      speaker: event.participantName,
-      speakerId: event.participantId,
-      text: event.text,
-      isFinal: event.isFinal,
-      confidence: event.confidence,
-      timestamp: event.timestamp.toISOString()
+      ...toTranscriptPayload(event),
+      text,
+      words: [],
+      language,
+      originalText: event.text
     }
   })
 }
 
 /**
- * Store and broadcast a transcript event
+ * Tell room clients the host's transcription budget is running low or out
+ */
+export async function broadcastUsageAlert(roomId: string, alert: UsageAlert): Promise<void> {
+  await getChannel(roomId).send({
+    type: 'broadcast',
+    event: 'usage',
+    payload: alert
+  })
+}
+
+/**
+ * Store and broadcast a transcript event.
+ * Interim events are only broadcast; finals are also persisted.
  */
 export async function publishTranscript(event: TranscriptEvent): Promise<void> {
   // Store in database for persistence
-  await storeTranscriptEvent(event)
+  if (event.isFinal) {
+    await storeTranscriptEvent(event)
+  }
 
   // Broadcast via Realtime for live consumers (UI, agents)
   await broadcastTranscript(event)
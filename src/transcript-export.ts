@@ -0,0 +1,248 @@
+/**
+ * Transcript Export
+ *
+ * Pure formatters that turn stored transcript events into subtitle files
+ * (SRT, WebVTT) or speaker-labelled documents (JSON, plain text, Markdown).
+ * Kept free of I/O so they can be used and tested without Supabase.
+ */
+
+import { TranscriptWord } from './types'
+
+export const EXPORT_FORMATS = ['srt', 'vtt', 'json', 'txt', 'md'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+/**
+ * A stored transcript turn, times in ms since the session started
+ */
+export interface TranscriptSegment {
+  speakerId: string
+  speakerName: string
+  text: string
+  startMs: number
+  endMs: number
+  confidence: number
+  words: TranscriptWord[]
+}
+
+export interface TranscriptExportMeta {
+  roomId: string
+  sessionId: string
+  startedAt: Date
+}
+
+export interface RenderedTranscript {
+  body: string
+  contentType: string
+  extension: string
+}
+
+// Subtitle cue limits: two lines of ~42 characters, at most 7 seconds on screen,
+// and a new cue after a pause
+const MAX_CUE_CHARS = 84
+const MAX_CUE_MS = 7000
+const MAX_CUE_GAP_MS = 2000
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
+/**
+ * Estimate word timings by spreading a turn's duration across its words
+ */
+function spreadWords(text: string, startMs: number, endMs: number, confidence: number): TranscriptWord[] {
+  const tokens = text.split(/\s+/).filter(Boolean)
+  const wordMs = tokens.length > 0 ? Math.max(0, endMs - startMs) / tokens.length : 0
+
+  return tokens.map((token, index) => ({
+    text: token,
+    startMs: startMs + index * wordMs,
+    endMs: startMs + (index + 1) * wordMs,
+    confidence
+  }))
+}
+
+/**
+ * Merge consecutive turns from the same speaker into one segment.
+ * Turns without word timings get estimated ones first, so each turn
+ * keeps its own timing inside the merged segment.
+ */
+export function mergeSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+  const sorted = segments
+    .map(segment => segment.words.length > 0
+      ? segment
+      : { ...segment, words: spreadWords(segment.text, segment.startMs, segment.endMs, segment.confidence) })
+    .sort((a, b) => a.startMs - b.startMs)
+  const merged: TranscriptSegment[] = []
+
+  for (const segment of sorted) {
+    const previous = merged[merged.length - 1]
+
+    if (previous && previous.speakerId === segment.speakerId) {
+      const previousWords = previous.text.split(/\s+/).length
+      const segmentWords = segment.text.split(/\s+/).length
+
+      previous.confidence = (previous.confidence * previousWords + segment.confidence * segmentWords) /
+        (previousWords + segmentWords)
+      previous.text = `${previous.text} ${segment.text}`
+      previous.endMs = Math.max(previous.endMs, segment.endMs)
+      previous.words = [...previous.words, ...segment.words]
+    } else {
+      merged.push({ ...segment, words: [...segment.words] })
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Split a merged segment into subtitle-sized cues along its word timings
+ */
+export function splitIntoCues(segment: TranscriptSegment): TranscriptSegment[] {
+  const { words } = segment
+  if (words.length === 0) return []
+
+  const cues: TranscriptSegment[] = []
+  let current: TranscriptWord[] = []
+  // Length of the current cue's text, kept as words are added
+  let length = 0
+
+  const flush = () => {
+    if (current.length === 0) return
+    cues.push({
+      ...segment,
+      text: current.map(word => word.text).join(' '),
+      startMs: current[0].startMs,
+      endMs: current[current.length - 1].endMs,
+      words: current
+    })
+    current = []
+    length = 0
+  }
+
+  for (const word of words) {
+    if (current.length > 0) {
+      const tooLong = length + 1 + word.text.length > MAX_CUE_CHARS
+      const tooSlow = word.endMs - current[0].startMs > MAX_CUE_MS
+      const paused = word.startMs - current[current.length - 1].endMs > MAX_CUE_GAP_MS
+      if (tooLong || tooSlow || paused) flush()
+    }
+    length += (current.length > 0 ? 1 : 0) + word.text.length
+    current.push(word)
+  }
+  flush()
+
+  return cues
+}
+
+/**
+ * Format ms as HH:MM:SS plus a millisecond part joined with `separator`
+ */
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms))
+  const hours = Math.floor(total / 3600000)
+  const minutes = Math.floor((total % 3600000) / 60000)
+  const seconds = Math.floor((total % 60000) / 1000)
+  const millis = total % 1000
+
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`
+}
+
+/**
+ * Format ms as HH:MM:SS for documents
+ */
+function formatClock(ms: number): string {
+  return formatTimestamp(ms, '.').slice(0, 8)
+}
+
+/**
+ * Cues must end after they start, or players drop them
+ */
+function cueEnd(cue: TranscriptSegment): number {
+  return Math.max(cue.endMs, cue.startMs + 500)
+}
+
+export function formatSrt(segments: TranscriptSegment[]): string {
+  const cues = mergeSegments(segments).flatMap(splitIntoCues)
+
+  return cues.map((cue, index) => [
+    String(index + 1),
+    `${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cueEnd(cue), ',')}`,
+    `${cue.speakerName}: ${cue.text}`,
+    ''
+  ].join('\n')).join('\n')
+}
+
+export function formatVtt(segments: TranscriptSegment[]): string {
+  const cues = mergeSegments(segments).flatMap(splitIntoCues)
+
+  const body = cues.map(cue => [
+    `${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cueEnd(cue), '.')}`,
+    `<v ${cue.speakerName.replace(/[<>]/g, '')}>${cue.text}`,
+    ''
+  ].join('\n')).join('\n')
+
+  return `WEBVTT\n\n${body}`
+}
+
+export function formatJson(segments: TranscriptSegment[], meta: TranscriptExportMeta): string {
+  return JSON.stringify({
+    roomId: meta.roomId,
+    sessionId: meta.sessionId,
+    startedAt: meta.startedAt.toISOString(),
+    segments: mergeSegments(segments).map(segment => ({
+      speaker: segment.speakerName,
+      speakerId: segment.speakerId,
+      startMs: segment.startMs,
+      endMs: segment.endMs,
+      text: segment.text,
+      confidence: segment.confidence,
+      words: segment.words
+    }))
+  }, null, 2)
+}
+
+export function formatText(segments: TranscriptSegment[]): string {
+  return mergeSegments(segments)
+    .map(segment => `[${formatClock(segment.startMs)}] ${segment.speakerName}: ${segment.text}`)
+    .join('\n') + '\n'
+}
+
+export function formatMarkdown(segments: TranscriptSegment[], meta: TranscriptExportMeta): string {
+  const header = [
+    '# Meeting Transcript',
+    '',
+    `- **Room:** ${meta.roomId}`,
+    `- **Session:** ${meta.sessionId}`,
+    `- **Started:** ${meta.startedAt.toISOString()}`,
+    ''
+  ]
+
+  const body = mergeSegments(segments).map(segment =>
+    `**${segment.speakerName}** _(${formatClock(segment.startMs)})_\n\n${segment.text}\n`
+  )
+
+  return [...header, ...body].join('\n')
+}
+
+/**
+ * Render segments in the requested format
+ */
+export function renderTranscript(
+  segments: TranscriptSegment[],
+  format: ExportFormat,
+  meta: TranscriptExportMeta
+): RenderedTranscript {
+  switch (format) {
+    case 'srt':
+      return { body: formatSrt(segments), contentType: 'application/x-subrip', extension: 'srt' }
+    case 'vtt':
+      return { body: formatVtt(segments), contentType: 'text/vtt', extension: 'vtt' }
+    case 'json':
+      return { body: formatJson(segments, meta), contentType: 'application/json', extension: 'json' }
+    case 'txt':
+      return { body: formatText(segments), contentType: 'text/plain', extension: 'txt' }
+    case 'md':
+      return { body: formatMarkdown(segments, meta), contentType: 'text/markdown', extension: 'md' }
+  }
+}
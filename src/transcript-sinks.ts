@@ -0,0 +1,417 @@
+/**
+ * Transcript Sinks
+ *
+ * Delivers transcripts and session lifecycle events to external services
+ * (JR Agent, SkillsKit, or any webhook). Sinks come from TRANSCRIPT_SINKS;
+ * rooms can add their own via settings.sinks, to allow-listed hosts only
+ * (ROOM_SINK_ALLOWED_HOSTS), and disable global ones by name.
+ *
+ * Each delivery is signed (optional), times out, retries with exponential
+ * backoff, and lands in a local dead-letter file when it finally fails.
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { createLogger } from './logger'
+import { sinkFailures } from './metrics'
+import { toTranscriptPayload } from './supabase'
+import { TranscriptEvent } from './types'
+import { signMeetingBurnerPayload } from './webhook-auth'
+
+export type SinkEventType = 'final' | 'interim' | 'lifecycle'
+export type SinkTemplate = 'jr' | 'skillskit' | 'raw'
+/** Where a sink is defined: TRANSCRIPT_SINKS (or the built-ins), or a room's settings */
+export type SinkScope = 'global' | 'room'
+
+export interface SinkConfig {
+  name: string
+  scope: SinkScope
+  /** May contain {roomId}, {sessionId} and {skillsKitSessionId} */
+  url: string
+  template: SinkTemplate
+  events: SinkEventType[]
+  enabled: boolean
+  /** HMAC secret; requests are unsigned without one */
+  secret?: string
+  signatureHeader: string
+  timeoutMs: number
+  maxRetries: number
+  retryBaseMs: number
+}
+
+export interface SinkContext {
+  roomId: string
+  sessionId: string
+  skillsKitSessionId?: string
+}
+
+// The SinkContext fields a sink URL can use as {placeholders}
+const URL_PLACEHOLDERS = ['roomId', 'sessionId', 'skillsKitSessionId'] as const
+type UrlPlaceholder = typeof URL_PLACEHOLDERS[number]
+
+export type SinkEvent =
+  | { type: 'transcript'; event: TranscriptEvent }
+  | {
+    type: 'lifecycle'
+    state: 'started' | 'stopped'
+    timestamp: Date
+    durationMs?: number
+    speechDurationMs?: number
+  }
+
+export interface SinkStats {
+  delivered: number
+  failed: number
+  retries: number
+  deadLettered: number
+  pending: number
+  lastDeliveredAt?: string
+  lastFailedAt?: string
+  lastError?: string
+}
+
+const log = createLogger('Sinks')
+
+const SINK_TEMPLATES: SinkTemplate[] = ['jr', 'skillskit', 'raw']
+const SINK_EVENT_TYPES: SinkEventType[] = ['final', 'interim', 'lifecycle']
+
+const DEFAULT_SIGNATURE_HEADER = 'X-MeetingBurner-Signature'
+const TIMESTAMP_HEADER = 'X-MeetingBurner-Timestamp'
+const MAX_RETRY_DELAY_MS = 30000
+
+// Stats, metrics and dead letters for room sinks share this key, since rooms choose their names
+const ROOM_SINKS_KEY = 'room'
+
+// Failed deliveries are appended to <dir>/<stats key>.jsonl
+const DEAD_LETTER_DIR = process.env.SINK_DEAD_LETTER_DIR || path.join(os.tmpdir(), 'meetingburner-sinks')
+
+// Used when TRANSCRIPT_SINKS is not set: the original JR Agent and SkillsKit forwarding
+const BUILT_IN_SINKS: Record<string, unknown>[] = [
+  {
+    name: 'jr',
+    url: `${process.env.JR_SERVICE_URL || 'http://localhost:3102'}/transcript`,
+    template: 'jr'
+  },
+  {
+    name: 'skillskit',
+    url: `${process.env.SKILLSKIT_SESSION_URL || 'http://localhost:3100'}/v1/sessions/{skillsKitSessionId}/signals`,
+    template: 'skillskit'
+  }
+]
+
+/**
+ * Parse snake_case sink definitions (TRANSCRIPT_SINKS or rooms.settings.sinks).
+ * Invalid entries are logged and skipped.
+ */
+export function parseSinkConfigs(raw: unknown, scope: SinkScope): SinkConfig[] {
+  if (!Array.isArray(raw)) return []
+
+  const sinks: SinkConfig[] = []
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object' || typeof entry.name !== 'string') {
+      log.warn('Ignoring sink without a name', { entry })
+      continue
+    }
+
+    const template = SINK_TEMPLATES.includes(entry.template) ? entry.template : 'raw'
+    const events = Array.isArray(entry.events)
+      ? entry.events.filter((type: unknown): type is SinkEventType => SINK_EVENT_TYPES.includes(type as SinkEventType))
+      : ['final' as const]
+
+    sinks.push({
+      name: entry.name,
+      scope,
+      url: typeof entry.url === 'string' ? entry.url : '',
+      template,
+      events,
+      enabled: entry.enabled !== false,
+      secret: typeof entry.secret === 'string' ? entry.secret : undefined,
+      signatureHeader: typeof entry.signature_header === 'string' ? entry.signature_header : DEFAULT_SIGNATURE_HEADER,
+      timeoutMs: typeof entry.timeout_ms === 'number' ? entry.timeout_ms : 5000,
+      maxRetries: typeof entry.max_retries === 'number' ? entry.max_retries : 3,
+      retryBaseMs: typeof entry.retry_base_ms === 'number' ? entry.retry_base_ms : 500
+    })
+  }
+
+  return sinks
+}
+
+function loadGlobalSinks(): SinkConfig[] {
+  const raw = process.env.TRANSCRIPT_SINKS
+  if (!raw) return parseSinkConfigs(BUILT_IN_SINKS, 'global')
+
+  try {
+    return parseSinkConfigs(JSON.parse(raw), 'global')
+  } catch (error) {
+    log.error('Could not parse TRANSCRIPT_SINKS, using built-in sinks', { error })
+    return parseSinkConfigs(BUILT_IN_SINKS, 'global')
+  }
+}
+
+/**
+ * Fill {placeholders} in a sink URL. Returns null if a value is missing,
+ * e.g. a SkillsKit sink for a room without a SkillsKit session.
+ */
+function resolveUrl(url: string, context: SinkContext): string | null {
+  let missing = false
+  const resolved = url.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = isUrlPlaceholder(key) ? context[key] : undefined
+    if (!value) missing = true
+    return encodeURIComponent(value ?? '')
+  })
+  return missing || !resolved ? null : resolved
+}
+
+function isUrlPlaceholder(key: string): key is UrlPlaceholder {
+  return (URL_PLACEHOLDERS as readonly string[]).includes(key)
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean)
+}
+
+/**
+ * Whether a room may send to this URL. Rooms are configured by hosts, so their
+ * sinks are limited to ROOM_SINK_ALLOWED_HOSTS (exact names, or `*.example.com`
+ * for subdomains) over ROOM_SINK_ALLOWED_SCHEMES (default https), and can't
+ * put placeholders in the host. Nothing is allowed until hosts are listed.
+ */
+function isAllowedRoomSinkUrl(url: string): boolean {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return false
+  }
+
+  const schemes = parseList(process.env.ROOM_SINK_ALLOWED_SCHEMES || 'https')
+  if (!schemes.includes(parsed.protocol.replace(/:$/, ''))) return false
+
+  const host = parsed.hostname.replace(/\.$/, '')
+  if (host.includes('{')) return false
+
+  return parseList(process.env.ROOM_SINK_ALLOWED_HOSTS).some(allowed => allowed.startsWith('*.')
+    ? host.endsWith(allowed.slice(1))
+    : host === allowed)
+}
+
+function eventType(event: SinkEvent): SinkEventType {
+  if (event.type === 'lifecycle') return 'lifecycle'
+  return event.event.isFinal ? 'final' : 'interim'
+}
+
+/**
+ * Build the request body for a sink. Built-in templates only carry transcripts
+ * (no lifecycle events, gap or consent markers).
+ */
+function renderPayload(template: SinkTemplate, event: SinkEvent, context: SinkContext): object | null {
+  if (event.type === 'lifecycle') {
+    if (template !== 'raw') return null
+    return {
+      type: 'lifecycle',
+      roomId: context.roomId,
+      sessionId: context.sessionId,
+      data: {
+        state: event.state,
+        timestamp: event.timestamp.toISOString(),
+        durationMs: event.durationMs,
+        speechDurationMs: event.speechDurationMs
+      }
+    }
+  }
+
+  if ((event.event.gap || event.event.consent) && template !== 'raw') return null
+
+  const transcript = {
+    text: event.event.text,
+    speaker: event.event.participantName,
+    confidence: event.event.confidence,
+    isFinal: event.event.isFinal
+  }
+
+  switch (template) {
+    case 'jr':
+      return { roomId: context.roomId, transcript }
+    case 'skillskit':
+      return { type: 'transcript', data: transcript }
+    case 'raw':
+      return { type: 'transcript', roomId: context.roomId, data: toTranscriptPayload(event.event) }
+  }
+}
+
+class SinkError extends Error {
+  readonly retryable: boolean
+
+  constructor(message: string, retryable: boolean) {
+    super(message)
+    this.name = 'SinkError'
+    this.retryable = retryable
+  }
+}
+
+/**
+ * Key for a sink's stats, metric label and dead-letter file: the global sink's
+ * name, or one shared key for room sinks so rooms can't add label values
+ */
+function statsKey(sink: SinkConfig): string {
+  return sink.scope === 'global' ? sink.name : ROOM_SINKS_KEY
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+class SinkDispatcher {
+  private globalSinks: SinkConfig[] = loadGlobalSinks()
+  private stats: Map<string, SinkStats> = new Map()
+
+  /**
+   * Global sinks plus a room's own. A room entry named like a global sink can
+   * only disable it; room sinks to hosts that aren't allow-listed are dropped.
+   */
+  resolveSinks(roomSinks?: unknown): SinkConfig[] {
+    const sinks = new Map(this.globalSinks.map(sink => [sink.name, sink]))
+    const globalNames = new Set(sinks.keys())
+
+    for (const sink of parseSinkConfigs(roomSinks, 'room')) {
+      if (globalNames.has(sink.name)) {
+        if (!sink.enabled) {
+          sinks.delete(sink.name)
+        } else {
+          log.warn('Ignoring room sink that would override a global sink', { sink: sink.name })
+        }
+        continue
+      }
+
+      if (!sink.enabled) continue
+      if (!isAllowedRoomSinkUrl(sink.url)) {
+        log.warn('Ignoring room sink to a host that is not allowed', { sink: sink.name, url: sink.url })
+        continue
+      }
+      sinks.set(sink.name, sink)
+    }
+
+    return Array.from(sinks.values()).filter(sink => sink.enabled)
+  }
+
+  /**
+   * Send an event to every sink subscribed to its type. Deliveries run in the
+   * background; failures end up in stats and the dead-letter file.
+   */
+  dispatch(sinks: SinkConfig[], event: SinkEvent, context: SinkContext): void {
+    const type = eventType(event)
+
+    for (const sink of sinks) {
+      if (!sink.events.includes(type)) continue
+
+      const url = resolveUrl(sink.url, context)
+      const payload = renderPayload(sink.template, event, context)
+      if (!url || !payload) continue
+
+      this.deliver(sink, url, JSON.stringify(payload)).catch(error => {
+        log.error('Unexpected error delivering to sink', { roomId: context.roomId, sessionId: context.sessionId, sink: sink.name, error })
+      })
+    }
+  }
+
+  private getStats(sink: SinkConfig): SinkStats {
+    const key = statsKey(sink)
+    let stats = this.stats.get(key)
+    if (!stats) {
+      stats = { delivered: 0, failed: 0, retries: 0, deadLettered: 0, pending: 0 }
+      this.stats.set(key, stats)
+    }
+    return stats
+  }
+
+  private async deliver(sink: SinkConfig, url: string, body: string): Promise<void> {
+    const stats = this.getStats(sink)
+    stats.pending++
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          await this.send(sink, url, body)
+          stats.delivered++
+          stats.lastDeliveredAt = new Date().toISOString()
+          return
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          const retryable = !(error instanceof SinkError) || error.retryable
+
+          if (!retryable || attempt >= sink.maxRetries) {
+            stats.failed++
+            sinkFailures.inc({ sink: statsKey(sink) })
+            stats.lastFailedAt = new Date().toISOString()
+            stats.lastError = message
+            log.warn('Delivery failed after all attempts', { sink: sink.name, attempts: attempt + 1, reason: message })
+            await this.deadLetter(sink, url, body, message, attempt + 1)
+            return
+          }
+
+          stats.retries++
+          // Exponential backoff with jitter
+          const delay = Math.min(MAX_RETRY_DELAY_MS, sink.retryBaseMs * Math.pow(2, attempt))
+          await sleep(delay / 2 + Math.random() * delay / 2)
+        }
+      }
+    } finally {
+      stats.pending--
+    }
+  }
+
+  private async send(sink: SinkConfig, url: string, body: string): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+
+    if (sink.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString()
+      headers[TIMESTAMP_HEADER] = timestamp
+      headers[sink.signatureHeader] = signMeetingBurnerPayload(body, timestamp, sink.secret)
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(sink.timeoutMs),
+      // Not followed: a redirect could lead an allow-listed room sink anywhere.
+      // The 3xx fails the delivery like any other client error.
+      redirect: 'manual'
+    })
+
+    if (!response.ok) {
+      // Client errors won't succeed on retry, except timeouts and rate limits
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429
+      throw new SinkError(`HTTP ${response.status}`, retryable)
+    }
+  }
+
+  private async deadLetter(sink: SinkConfig, url: string, body: string, error: string, attempts: number): Promise<void> {
+    const file = path.join(DEAD_LETTER_DIR, `${statsKey(sink).replace(/[^\w.-]/g, '_')}.jsonl`)
+    const entry = {
+      sink: sink.name,
+      url,
+      body: JSON.parse(body),
+      error,
+      attempts,
+      failedAt: new Date().toISOString()
+    }
+
+    try {
+      await fs.mkdir(DEAD_LETTER_DIR, { recursive: true })
+      await fs.appendFile(file, JSON.stringify(entry) + '\n')
+      this.getStats(sink).deadLettered++
+    } catch (writeError) {
+      log.error('Could not write dead letter', { sink: sink.name, error: writeError })
+    }
+  }
+
+  /**
+   * Delivery stats per global sink name, with all room sinks under 'room'
+   */
+  getAllStats(): Record<string, SinkStats> {
+    return Object.fromEntries(this.stats)
+  }
+}
+
+// Singleton instance
+export const sinkDispatcher = new SinkDispatcher()
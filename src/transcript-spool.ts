@@ -0,0 +1,282 @@
+/**
+ * Transcript Spool
+ *
+ * Append-only on-disk log in front of the transcript table. Every row is
+ * written to the spool before it is sent to Supabase and acknowledged once
+ * the write succeeds; unacknowledged rows are replayed in order with
+ * backoff, including after a restart. Each row has an idempotency key
+ * (the segment id the table upserts on), so replays never duplicate rows.
+ *
+ * A row the database keeps rejecting as invalid (see SpoolWriteError) is
+ * moved to transcript-spool.dead.jsonl after a few attempts, so one bad row
+ * can't hold up the rows behind it. Other errors are retried indefinitely.
+ *
+ * Log format: one JSON record per line, either
+ *   {"op":"write","key":"...","row":{...}}  or  {"op":"ack","key":"..."}
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createLogger } from './logger'
+import { spoolDeadLetters } from './metrics'
+
+export type SpoolRow = Record<string, unknown>
+
+interface SpoolEntry {
+  key: string
+  row: SpoolRow
+}
+
+interface WriteWaiter {
+  keys: Set<string>
+  resolve: () => void
+}
+
+type SpoolRecord =
+  | { op: 'write'; key: string; row: SpoolRow }
+  | { op: 'ack'; key: string }
+
+export interface SpoolOptions {
+  /** Attempts at a permanently failing row before it is dead-lettered */
+  maxAttempts: number
+  retryBaseMs: number
+}
+
+/**
+ * A failed write. Permanent failures (the row itself is invalid) won't
+ * succeed on retry; anything else thrown by a writer is treated as transient.
+ */
+export class SpoolWriteError extends Error {
+  readonly permanent: boolean
+
+  constructor(message: string, permanent: boolean) {
+    super(message)
+    this.name = 'SpoolWriteError'
+    this.permanent = permanent
+  }
+}
+
+const log = createLogger('Spool')
+
+const DEFAULT_OPTIONS: SpoolOptions = {
+  maxAttempts: Number(process.env.TRANSCRIPT_SPOOL_MAX_ATTEMPTS) || 5,
+  retryBaseMs: 1000
+}
+const MAX_RETRY_MS = 60000
+// Rewrite the log once this many acknowledged records have piled up
+const COMPACT_AFTER_ACKS = 1000
+
+export class TranscriptSpool {
+  private file: string
+  private deadLetterFile: string
+  private writer: (row: SpoolRow) => Promise<void>
+  private options: SpoolOptions
+  private pending: SpoolEntry[] = []
+  private loaded: Promise<void> | null = null
+  // Serializes appends and rewrites of the log file
+  private fileQueue: Promise<void> = Promise.resolve()
+  private flushing = false
+  private retryTimer: NodeJS.Timeout | null = null
+  private failures = 0
+  private ackedSinceCompact = 0
+  private waiters: WriteWaiter[] = []
+
+  constructor(directory: string, writer: (row: SpoolRow) => Promise<void>, options: Partial<SpoolOptions> = {}) {
+    this.file = path.join(directory, 'transcript-spool.jsonl')
+    this.deadLetterFile = path.join(directory, 'transcript-spool.dead.jsonl')
+    this.writer = writer
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * Load unacknowledged rows left by a previous process and start replaying them
+   */
+  start(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load().then(() => {
+        if (this.pending.length > 0) {
+          log.info('Replaying unacknowledged transcript rows', { rows: this.pending.length })
+        }
+        this.flush()
+      })
+    }
+    return this.loaded
+  }
+
+  /**
+   * Record a row on disk, then write it (in order, with retries)
+   */
+  async enqueue(key: string, row: SpoolRow): Promise<void> {
+    await this.start()
+    // Queue the row inside the file operation so a concurrent rewrite can't drop it
+    await this.withFile(async () => {
+      await fs.appendFile(this.file, JSON.stringify({ op: 'write', key, row }) + '\n')
+      this.pending.push({ key, row })
+    })
+    this.flush()
+  }
+
+  /**
+   * Rows recorded but not yet acknowledged by the database
+   */
+  getBacklog(): number {
+    return this.pending.length
+  }
+
+  /**
+   * Resolve once none of the rows with these keys is waiting to be written:
+   * each has been acknowledged by the database or dead-lettered
+   */
+  async whenWritten(keys: Iterable<string>): Promise<void> {
+    await this.start()
+    const waiter: WriteWaiter = { keys: new Set(keys), resolve: () => {} }
+    const written = new Promise<void>(resolve => { waiter.resolve = resolve })
+
+    this.waiters.push(waiter)
+    this.settleWaiters()
+    return written
+  }
+
+  private settleWaiters(): void {
+    if (this.waiters.length === 0) return
+
+    this.waiters = this.waiters.filter(waiter => {
+      if (this.pending.some(entry => waiter.keys.has(entry.key))) return true
+      waiter.resolve()
+      return false
+    })
+  }
+
+  private async load(): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true })
+
+    let contents: string
+    try {
+      contents = await fs.readFile(this.file, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+      throw error
+    }
+
+    const entries: SpoolEntry[] = []
+    for (const line of contents.split('\n')) {
+      if (!line) continue
+
+      let record: SpoolRecord
+      try {
+        record = JSON.parse(line)
+      } catch {
+        // A crash mid-append can leave a partial last line
+        log.warn('Skipping unreadable spool record')
+        continue
+      }
+
+      if (record.op === 'write') {
+        entries.push({ key: record.key, row: record.row })
+      } else if (record.op === 'ack') {
+        // Acks arrive in write order, so the first matching write is the one acknowledged
+        const index = entries.findIndex(entry => entry.key === record.key)
+        if (index !== -1) entries.splice(index, 1)
+      }
+    }
+
+    this.pending = entries
+    await this.rewrite()
+  }
+
+  private acknowledge(key: string): Promise<void> {
+    const record: SpoolRecord = { op: 'ack', key }
+    return this.withFile(() => fs.appendFile(this.file, JSON.stringify(record) + '\n'))
+  }
+
+  /**
+   * Replace the log with just the pending rows
+   */
+  private rewrite(): Promise<void> {
+    return this.withFile(async () => {
+      const contents = this.pending
+        .map(entry => JSON.stringify({ op: 'write', key: entry.key, row: entry.row }) + '\n')
+        .join('')
+      const tempFile = `${this.file}.tmp`
+      await fs.writeFile(tempFile, contents)
+      await fs.rename(tempFile, this.file)
+      this.ackedSinceCompact = 0
+    })
+  }
+
+  private withFile(operation: () => Promise<void>): Promise<void> {
+    const result = this.fileQueue.then(operation)
+    this.fileQueue = result.catch(() => {})
+    return result
+  }
+
+  /**
+   * Move a row the database won't accept out of the way, keeping it for inspection
+   */
+  private async deadLetter(entry: SpoolEntry, error: unknown, attempts: number): Promise<void> {
+    const record = {
+      key: entry.key,
+      row: entry.row,
+      error: error instanceof Error ? error.message : String(error),
+      attempts,
+      failedAt: new Date().toISOString()
+    }
+    await this.withFile(() => fs.appendFile(this.deadLetterFile, JSON.stringify(record) + '\n'))
+    spoolDeadLetters.inc()
+    log.error('Dead-lettered transcript row the database keeps rejecting', { key: entry.key, attempts, error })
+  }
+
+  /**
+   * Write pending rows oldest first; stop at the first failure and retry later.
+   * A row failing permanently maxAttempts times is dead-lettered instead.
+   */
+  private async flush(): Promise<void> {
+    if (this.flushing || this.retryTimer) return
+    this.flushing = true
+
+    try {
+      while (this.pending.length > 0) {
+        const entry = this.pending[0]
+
+        try {
+          await this.writer(entry.row)
+        } catch (error) {
+          this.failures++
+
+          if (error instanceof SpoolWriteError && error.permanent && this.failures >= this.options.maxAttempts) {
+            await this.deadLetter(entry, error, this.failures)
+            this.failures = 0
+            this.pending.shift()
+            await this.acknowledge(entry.key)
+            this.ackedSinceCompact++
+            this.settleWaiters()
+            continue
+          }
+
+          const delay = Math.min(MAX_RETRY_MS, this.options.retryBaseMs * Math.pow(2, this.failures - 1))
+          log.error('Write failed, retrying', { pending: this.pending.length, retryInMs: delay, error })
+          this.retryTimer = setTimeout(() => {
+            this.retryTimer = null
+            this.flush()
+          }, delay)
+          return
+        }
+
+        this.failures = 0
+        this.pending.shift()
+        await this.acknowledge(entry.key)
+        this.ackedSinceCompact++
+        this.settleWaiters()
+      }
+
+      if (this.ackedSinceCompact >= COMPACT_AFTER_ACKS) {
+        await this.rewrite()
+      }
+    } catch (error) {
+      // Disk errors: rows stay pending in memory and are retried on the next enqueue
+      log.error('Error updating spool file', { error })
+    } finally {
+      this.flushing = false
+    }
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Transcript Stream
+ *
+ * Serves live transcripts straight from the bots over Server-Sent Events
+ * and WebSocket, so local consumers don't need Supabase credentials.
+ * Payloads match the Supabase Realtime broadcast.
+ *
+ * Each room keeps a bounded in-memory backlog with increasing event ids;
+ * clients resume with Last-Event-ID (SSE) or ?lastEventId= (both) and can
+ * filter by speaker with ?speaker=<id or name>[,...].
+ *
+ * Rooms only exist in the hub while this replica transcribes them live, so
+ * subscribers can't grow the map with arbitrary room ids. Streams need a
+ * token for the room (see api-auth.ts).
+ */
+
+import { IncomingMessage, Server } from 'http'
+import { Duplex } from 'stream'
+import { Request, Response } from 'express'
+import { WebSocket, WebSocketServer } from 'ws'
+import { canAccessRoom, readToken } from './api-auth'
+import { createLogger } from './logger'
+import { toTranscriptPayload, TranscriptPayload } from './supabase'
+import { TranscriptEvent } from './types'
+
+const log = createLogger('TranscriptStream')
+
+const BACKLOG_SIZE = Number(process.env.TRANSCRIPT_STREAM_BACKLOG) || 500
+const HEARTBEAT_INTERVAL_MS = 15000
+const STREAM_PATH = /^\/rooms\/([^/]+)\/stream\/?$/
+
+export interface StreamedTranscript {
+  id: number
+  payload: TranscriptPayload
+}
+
+interface StreamSubscription {
+  speakers: Set<string> | null
+  send: (item: StreamedTranscript) => void
+  end: () => void
+}
+
+interface RoomStream {
+  nextId: number
+  backlog: StreamedTranscript[]
+  subscribers: Set<StreamSubscription>
+}
+
+class TranscriptHub {
+  private rooms: Map<string, RoomStream> = new Map()
+
+  /**
+   * Start accepting subscribers for a room (when live transcription starts)
+   */
+  openRoom(roomId: string): void {
+    if (!this.rooms.has(roomId)) {
+      this.rooms.set(roomId, { nextId: 1, backlog: [], subscribers: new Set() })
+    }
+  }
+
+  /**
+   * Whether a room is being transcribed live on this replica
+   */
+  isOpen(roomId: string): boolean {
+    return this.rooms.has(roomId)
+  }
+
+  /**
+   * Fan a transcript event out to subscribers and record it in the backlog.
+   * Events for rooms that aren't open are dropped.
+   */
+  publish(event: TranscriptEvent): void {
+    const room = this.rooms.get(event.roomId)
+    if (!room) return
+
+    const item: StreamedTranscript = { id: room.nextId++, payload: toTranscriptPayload(event) }
+
+    room.backlog.push(item)
+    if (room.backlog.length > BACKLOG_SIZE) {
+      room.backlog.shift()
+    }
+
+    for (const subscription of room.subscribers) {
+      if (matchesSpeaker(subscription.speakers, item)) {
+        subscription.send(item)
+      }
+    }
+  }
+
+  /**
+   * Subscribe to a room, replaying backlog entries newer than lastEventId.
+   * Returns an unsubscribe function, or null if the room isn't open.
+   */
+  subscribe(roomId: string, subscription: StreamSubscription, lastEventId?: number): (() => void) | null {
+    const room = this.rooms.get(roomId)
+    if (!room) return null
+
+    if (lastEventId !== undefined) {
+      for (const item of room.backlog) {
+        if (item.id > lastEventId && matchesSpeaker(subscription.speakers, item)) {
+          subscription.send(item)
+        }
+      }
+    }
+
+    room.subscribers.add(subscription)
+    return () => {
+      room.subscribers.delete(subscription)
+    }
+  }
+
+  /**
+   * Drop a room's backlog and end its streams (when transcription stops)
+   */
+  closeRoom(roomId: string): void {
+    const room = this.rooms.get(roomId)
+    if (!room) return
+
+    for (const subscription of room.subscribers) {
+      subscription.end()
+    }
+    this.rooms.delete(roomId)
+  }
+}
+
+export const transcriptHub = new TranscriptHub()
+
+function matchesSpeaker(speakers: Set<string> | null, item: StreamedTranscript): boolean {
+  return !speakers || speakers.has(item.payload.speakerId) || speakers.has(item.payload.speaker)
+}
+
+function parseSpeakers(value: unknown): Set<string> | null {
+  if (typeof value !== 'string' || value.trim() === '') return null
+  return new Set(value.split(',').map(speaker => speaker.trim()).filter(Boolean))
+}
+
+function parseEventId(value: unknown): number | undefined {
+  const id = Number(value)
+  return typeof value === 'string' && value !== '' && Number.isInteger(id) ? id : undefined
+}
+
+/**
+ * Server-Sent Events handler
+ * GET /rooms/:roomId/stream?speaker=&lastEventId=
+ */
+export function handleTranscriptSse(req: Request, res: Response): void {
+  const { roomId } = req.params
+  if (!transcriptHub.isOpen(roomId)) {
+    res.status(404).json({ error: 'Room is not being transcribed live' })
+    return
+  }
+
+  const lastEventId = parseEventId(req.get('last-event-id') ?? req.query.lastEventId)
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  })
+  res.write('retry: 3000\n\n')
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+
+  const unsubscribe = transcriptHub.subscribe(roomId, {
+    speakers: parseSpeakers(req.query.speaker),
+    send: (item) => {
+      res.write(`id: ${item.id}\nevent: transcript\ndata: ${JSON.stringify(item.payload)}\n\n`)
+    },
+    end: () => {
+      res.write('event: end\ndata: {}\n\n')
+      res.end()
+    }
+  }, lastEventId)
+
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe?.()
+  })
+}
+
+/**
+ * Accept WebSocket upgrades on /rooms/:roomId/stream on the HTTP server
+ */
+export function attachTranscriptWebSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true })
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const match = STREAM_PATH.exec(url.pathname)
+
+    if (!match) {
+      socket.destroy()
+      return
+    }
+
+    // A malformed escape would throw out of the listener and take the process down
+    let roomId: string
+    try {
+      roomId = decodeURIComponent(match[1])
+    } catch {
+      rejectUpgrade(socket, 400, 'Bad Request')
+      return
+    }
+
+    canAccessRoom(roomId, readToken(req.headers.authorization, req.url))
+      .then(allowed => {
+        if (!allowed) {
+          log.warn('Rejected stream upgrade', { roomId, ip: req.socket.remoteAddress })
+          rejectUpgrade(socket, 401, 'Unauthorized')
+          return
+        }
+        if (!transcriptHub.isOpen(roomId)) {
+          rejectUpgrade(socket, 404, 'Not Found')
+          return
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          handleTranscriptWebSocket(ws, roomId, url.searchParams)
+        })
+      })
+      .catch(error => {
+        log.error('Error authorizing stream upgrade', { roomId, error })
+        rejectUpgrade(socket, 500, 'Internal Server Error')
+      })
+  })
+}
+
+/**
+ * Answer an upgrade request with a plain HTTP error and close the socket
+ */
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`)
+}
+
+function handleTranscriptWebSocket(ws: WebSocket, roomId: string, params: URLSearchParams): void {
+  let alive = true
+  ws.on('pong', () => { alive = true })
+
+  // Ping as heartbeat; drop clients that stop answering
+  const heartbeat = setInterval(() => {
+    if (!alive) {
+      ws.terminate()
+      return
+    }
+    alive = false
+    ws.ping()
+  }, HEARTBEAT_INTERVAL_MS)
+
+  const unsubscribe = transcriptHub.subscribe(roomId, {
+    speakers: parseSpeakers(params.get('speaker') ?? undefined),
+    send: (item) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ id: item.id, event: 'transcript', data: item.payload }))
+      }
+    },
+    end: () => {
+      ws.send(JSON.stringify({ event: 'end' }))
+      ws.close(1000, 'Transcription stopped')
+    }
+  }, parseEventId(params.get('lastEventId') ?? undefined))
+
+  // The room stopped between the upgrade check and now
+  if (!unsubscribe) {
+    clearInterval(heartbeat)
+    ws.close(1000, 'Transcription stopped')
+    return
+  }
+
+  ws.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+  })
+}
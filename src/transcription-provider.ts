@@ -0,0 +1,39 @@
+/**
+ * Transcription Provider Registry
+ *
+ * Resolves which speech-to-text vendor a room uses. Rooms can pick a
+ * provider in their settings; otherwise TRANSCRIPTION_PROVIDER applies
+ * (default: assemblyai).
+ */
+
+import { assemblyAIProvider } from './assemblyai-stream'
+import { createFakeProvider, loadFakeScript } from './fake-provider'
+import { TranscriptionProvider } from './types'
+
+const DEFAULT_PROVIDER = 'assemblyai'
+
+const providers: Map<string, () => TranscriptionProvider> = new Map([
+  ['assemblyai', () => assemblyAIProvider],
+  ['fake', () => createFakeProvider(loadFakeScript())]
+])
+
+/**
+ * Register an additional provider under a name
+ */
+export function registerTranscriptionProvider(name: string, factory: () => TranscriptionProvider): void {
+  providers.set(name, factory)
+}
+
+/**
+ * Get a provider by name, falling back to the configured default
+ */
+export function getTranscriptionProvider(name?: string): TranscriptionProvider {
+  const providerName = name || process.env.TRANSCRIPTION_PROVIDER || DEFAULT_PROVIDER
+  const factory = providers.get(providerName)
+
+  if (!factory) {
+    throw new Error(`Unknown transcription provider: ${providerName}`)
+  }
+
+  return factory()
+}
@@ -0,0 +1,317 @@
+/**
+ * Live Translation
+ *
+ * Translates final transcripts into a room's target languages after they
+ * have been redacted. Translators are pluggable: `stub` is an offline
+ * stand-in for tests, `deepl` and `libretranslate` call real engines over
+ * HTTP, and more can be registered like transcription providers.
+ *
+ * Each room has its own RoomTranslator with a cache of recent translations
+ * and a rate limit on engine requests, so one busy meeting can't use up the
+ * engine's quota for everyone.
+ */
+
+import { setTimeout as sleep } from 'timers/promises'
+import { TranscriptEvent } from './types'
+import { createLogger } from './logger'
+
+export interface Translator {
+  name: string
+  /** Translate text into a language; `sourceLanguage` is detected by the engine when omitted */
+  translate(text: string, targetLanguage: string, sourceLanguage?: string): Promise<string>
+}
+
+export interface TranslationSettings {
+  /** Language codes to translate final transcripts into */
+  targetLanguages: string[]
+  /** Translator name; TRANSLATION_PROVIDER when unset */
+  provider?: string
+}
+
+/** Translated text per target language */
+export type Translations = Record<string, string>
+
+const log = createLogger('Translation')
+
+const TIMEOUT_MS = Number(process.env.TRANSLATION_TIMEOUT_MS) || 5000
+// Engine requests per room per minute, and translations remembered per room
+const RATE_PER_MINUTE = Number(process.env.TRANSLATION_RATE_PER_MINUTE) || 120
+const CACHE_SIZE = Number(process.env.TRANSLATION_CACHE_SIZE) || 500
+// Finals waiting for translation beyond this are skipped, so captions don't fall ever further behind
+const MAX_QUEUE = Number(process.env.TRANSLATION_MAX_QUEUE) || 50
+// How long a stopping room waits for the translation in progress
+const CLOSE_TIMEOUT_MS = Number(process.env.TRANSLATION_CLOSE_TIMEOUT_MS) || 5000
+
+class TranslatorError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TranslatorError'
+  }
+}
+
+async function postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    throw new TranslatorError(`HTTP ${response.status}: ${await response.text()}`)
+  }
+  return await response.json() as T
+}
+
+/**
+ * Offline translator for tests: prefixes the text with the target language
+ */
+export const stubTranslator: Translator = {
+  name: 'stub',
+  async translate(text: string, targetLanguage: string): Promise<string> {
+    return `[${targetLanguage}] ${text}`
+  }
+}
+
+/**
+ * DeepL (DEEPL_API_KEY; DEEPL_API_URL for the pro endpoint)
+ */
+export function createDeepLTranslator(): Translator {
+  const apiKey = process.env.DEEPL_API_KEY
+  if (!apiKey) {
+    throw new Error('DEEPL_API_KEY is not set')
+  }
+  const url = process.env.DEEPL_API_URL || 'https://api-free.deepl.com/v2/translate'
+
+  return {
+    name: 'deepl',
+    async translate(text: string, targetLanguage: string, sourceLanguage?: string): Promise<string> {
+      const result = await postJson<{ translations?: Array<{ text?: unknown }> }>(url, {
+        text: [text],
+        target_lang: targetLanguage.toUpperCase(),
+        ...(sourceLanguage ? { source_lang: sourceLanguage.toUpperCase() } : {})
+      }, { Authorization: `DeepL-Auth-Key ${apiKey}` })
+
+      const translated = result?.translations?.[0]?.text
+      if (typeof translated !== 'string') {
+        throw new TranslatorError('DeepL response has no translation')
+      }
+      return translated
+    }
+  }
+}
+
+/**
+ * LibreTranslate, e.g. self-hosted (LIBRETRANSLATE_URL, optional LIBRETRANSLATE_API_KEY)
+ */
+export function createLibreTranslateTranslator(): Translator {
+  const baseUrl = process.env.LIBRETRANSLATE_URL
+  if (!baseUrl) {
+    throw new Error('LIBRETRANSLATE_URL is not set')
+  }
+
+  return {
+    name: 'libretranslate',
+    async translate(text: string, targetLanguage: string, sourceLanguage?: string): Promise<string> {
+      const result = await postJson<{ translatedText?: unknown }>(`${baseUrl.replace(/\/$/, '')}/translate`, {
+        q: text,
+        source: sourceLanguage ?? 'auto',
+        target: targetLanguage,
+        format: 'text',
+        api_key: process.env.LIBRETRANSLATE_API_KEY
+      })
+
+      if (typeof result?.translatedText !== 'string') {
+        throw new TranslatorError('LibreTranslate response has no translation')
+      }
+      return result.translatedText
+    }
+  }
+}
+
+const translators: Map<string, () => Translator> = new Map([
+  ['stub', () => stubTranslator],
+  ['deepl', createDeepLTranslator],
+  ['libretranslate', createLibreTranslateTranslator]
+])
+
+/**
+ * Register an additional translator under a name
+ */
+export function registerTranslator(name: string, factory: () => Translator): void {
+  translators.set(name, factory)
+}
+
+/**
+ * Get a translator by name, falling back to TRANSLATION_PROVIDER
+ */
+export function getTranslator(name?: string): Translator {
+  const translatorName = name || process.env.TRANSLATION_PROVIDER
+  if (!translatorName) {
+    throw new Error('No translator configured (set TRANSLATION_PROVIDER or settings.translation.provider)')
+  }
+
+  const factory = translators.get(translatorName)
+  if (!factory) {
+    throw new Error(`Unknown translator: ${translatorName}`)
+  }
+
+  return factory()
+}
+
+/**
+ * Token bucket refilled continuously up to a minute's worth of requests
+ */
+class RateLimiter {
+  private tokens: number
+  private updatedAt = Date.now()
+  private perMinute: number
+
+  constructor(perMinute: number) {
+    this.perMinute = perMinute
+    this.tokens = perMinute
+  }
+
+  /**
+   * Wait until a request may be made. Rejects if `signal` aborts while waiting.
+   */
+  async take(signal: AbortSignal): Promise<void> {
+    for (;;) {
+      const now = Date.now()
+      this.tokens = Math.min(this.perMinute, this.tokens + ((now - this.updatedAt) / 60000) * this.perMinute)
+      this.updatedAt = now
+
+      if (this.tokens >= 1) {
+        this.tokens--
+        return
+      }
+
+      const waitMs = ((1 - this.tokens) / this.perMinute) * 60000
+      await sleep(Math.ceil(waitMs), undefined, { signal })
+    }
+  }
+}
+
+/**
+ * Translates one room's final transcripts in order
+ */
+export class RoomTranslator {
+  private roomId: string
+  private translator: Translator
+  private targetLanguages: string[]
+  private sourceLanguage?: string
+  private limiter: RateLimiter = new RateLimiter(RATE_PER_MINUTE)
+  // Recently translated text by `${language}:${text}`, oldest first
+  private cache: Map<string, string> = new Map()
+  private queue: Promise<void> = Promise.resolve()
+  private queued = 0
+  private closed = false
+  // Aborted on close, so a wait for the rate limit doesn't hold up the stop
+  private stopping: AbortController = new AbortController()
+
+  constructor(roomId: string, translator: Translator, targetLanguages: string[], sourceLanguage?: string) {
+    this.roomId = roomId
+    this.translator = translator
+    this.sourceLanguage = sourceLanguage
+    // Nothing to do for the language being spoken
+    this.targetLanguages = targetLanguages.filter(language => language !== sourceLanguage)
+  }
+
+  getTargetLanguages(): string[] {
+    return this.targetLanguages
+  }
+
+  /**
+   * Queue a final transcript for translation; `onTranslated` gets the languages
+   * that succeeded. Events are translated one at a time, in arrival order.
+   */
+  enqueue(event: TranscriptEvent, onTranslated: (translations: Translations) => Promise<void>): void {
+    if (this.closed || this.targetLanguages.length === 0) return
+
+    if (this.queued >= MAX_QUEUE) {
+      log.warn('Queue full, not translating segment', { roomId: this.roomId, segmentId: event.segmentId })
+      return
+    }
+
+    this.queued++
+    this.queue = this.queue
+      .then(async () => {
+        // Skip what's left once the room has stopped
+        if (this.closed) return
+
+        const translations = await this.translate(event.text)
+        if (Object.keys(translations).length > 0) {
+          await onTranslated(translations)
+        }
+      })
+      .catch(error => {
+        log.error('Error handling translations', { roomId: this.roomId, error })
+      })
+      .finally(() => {
+        this.queued--
+      })
+  }
+
+  /**
+   * Translate text into every target language. Languages that fail are left out.
+   */
+  async translate(text: string): Promise<Translations> {
+    const translations: Translations = {}
+
+    for (const language of this.targetLanguages) {
+      const key = `${language}:${text}`
+      const cached = this.cache.get(key)
+      if (cached !== undefined) {
+        // Refresh its place so frequent phrases stay cached
+        this.cache.delete(key)
+        this.cache.set(key, cached)
+        translations[language] = cached
+        continue
+      }
+
+      try {
+        await this.limiter.take(this.stopping.signal)
+      } catch {
+        // Closed while waiting for the rate limit
+        break
+      }
+
+      try {
+        const translated = await this.translator.translate(text, language, this.sourceLanguage)
+        translations[language] = translated
+        this.remember(key, translated)
+      } catch (error) {
+        log.error('Could not translate', { roomId: this.roomId, translator: this.translator.name, language, error })
+      }
+    }
+
+    return translations
+  }
+
+  private remember(key: string, translated: string): void {
+    this.cache.set(key, translated)
+    if (this.cache.size > CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value!)
+    }
+  }
+
+  /**
+   * Stop translating: drop queued finals and wait up to CLOSE_TIMEOUT_MS for
+   * the translation in progress, if any
+   */
+  async close(): Promise<void> {
+    this.closed = true
+    this.stopping.abort()
+
+    const timeout = new AbortController()
+    const drained = await Promise.race([
+      this.queue.then(() => true),
+      sleep(CLOSE_TIMEOUT_MS, false, { signal: timeout.signal }).catch(() => false)
+    ])
+    timeout.abort()
+
+    if (!drained) {
+      log.warn('Gave up waiting for translation in progress', { roomId: this.roomId, timeoutMs: CLOSE_TIMEOUT_MS })
+    }
+  }
+}
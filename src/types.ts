@@ -12,6 +12,16 @@ export interface RoomSession {
   isActive: boolean
 }
 
+/**
+ * A transcription session row left 'active' in live_transcription_sessions
+ */
+export interface StoredSession {
+  sessionId: string
+  roomId: string
+  mode: 'live' | 'post-call'
+  startedAt: Date
+}
+
 export interface ParticipantStream {
   participantId: string
   participantName: string
@@ -21,14 +31,151 @@ export interface ParticipantStream {
   speechDurationMs: number
 }
 
+/**
+ * A single recognized word. Times are in ms; the reference point depends
+ * on where it appears (provider audio offset, or meeting-relative on TranscriptEvent).
+ */
+export interface TranscriptWord {
+  text: string
+  startMs: number
+  endMs: number
+  confidence: number
+}
+
 export interface TranscriptEvent {
   roomId: string
+  sessionId: string
   participantId: string
   participantName: string
+  /** Stable id for a speaker turn; later interim/final events for the turn replace earlier ones */
+  segmentId: string
   text: string
   isFinal: boolean
   confidence: number
+  /** Wall-clock time the turn started being spoken */
   timestamp: Date
+  /** Turn start/end in ms since the transcription session started */
+  startMs: number
+  endMs: number
+  /** Word timings, meeting-relative like startMs/endMs */
+  words: TranscriptWord[]
+  /** Marks a stretch the bot could not hear (it was rejoining the room), not speech */
+  gap?: boolean
+  /** Marks the participant opting out of (declined) or back into (granted) transcription, not speech */
+  consent?: 'granted' | 'declined'
+}
+
+/**
+ * Audio VAD classed as speech (pre-roll and hangover included), in meeting ms
+ */
+export interface SpeechActivity {
+  participantId: string
+  participantName: string
+  startMs: number
+  endMs: number
+}
+
+/**
+ * A single result from a speech-to-text provider
+ */
+export interface TranscriptResult {
+  /** Stable id for the turn within the stream; shared by its interim and final results */
+  turnId: string
+  text: string
+  isFinal: boolean
+  confidence: number
+  /** Offsets into the audio sent to this stream, when the provider reports them */
+  startMs?: number
+  endMs?: number
+  words: TranscriptWord[]
+}
+
+/**
+ * A real-time transcription session for a single participant.
+ *
+ * Events:
+ * - 'connected' (sessionId: string, expiresAt?: Date) - providers with a maximum session length report when it ends
+ * - 'transcript' (result: TranscriptResult)
+ * - 'error' (error: unknown)
+ * - 'closed'
+ */
+export interface TranscriptionStream extends NodeJS.EventEmitter {
+  connect(): Promise<void>
+  /** Expects Int16Array in PCM format at 16kHz */
+  sendAudio(audioData: Int16Array): void
+  isActive(): boolean
+  close(): Promise<void>
+}
+
+/**
+ * Maps a position in VAD-gated audio to the meeting clock
+ */
+export interface TimelineAnchor {
+  /** Position in the forwarded (gated) audio */
+  offsetMs: number
+  /** Position on the meeting clock, in ms since session start */
+  meetingMs: number
+}
+
+/**
+ * A participant's VAD-gated audio recorded for post-call transcription
+ */
+export interface ParticipantRecording {
+  participantId: string
+  participantName: string
+  filePath: string
+  sampleRate: number
+  /** Where each run of speech in the file falls on the meeting clock */
+  segments: TimelineAnchor[]
+}
+
+/**
+ * A timed result from a provider's batch (non-streaming) API.
+ * Offsets are relative to the start of the recording.
+ */
+export interface BatchTranscriptSegment {
+  text: string
+  confidence: number
+  startMs: number
+  endMs: number
+  words: TranscriptWord[]
+}
+
+/**
+ * Per-room recognition settings passed through to the provider
+ */
+export interface TranscriptionOptions {
+  /** Language code (e.g. 'es'), or 'auto' to detect it */
+  language?: string
+  /** Provider-specific model name */
+  speechModel?: string
+  /** Words and phrases to bias recognition towards (product names, people) */
+  keyterms?: string[]
+  /** Punctuate and case transcripts */
+  formatTurns?: boolean
+  filterProfanity?: boolean
+}
+
+/**
+ * Per-room captions the bot publishes back into the LiveKit room
+ */
+export interface CaptionOptions {
+  /** Publish transcripts as LiveKit transcription events on the speaker's track */
+  transcriptionEvents: boolean
+  /** Topic for JSON data messages carrying each transcript, or null for none */
+  dataTopic: string | null
+  /** Chat message sent to each participant as they join, or null for none */
+  announcement: string | null
+}
+
+/**
+ * A speech-to-text vendor that can open per-participant streams
+ * and, optionally, transcribe finished recordings after the call
+ */
+export interface TranscriptionProvider {
+  name: string
+  createStream(participantId: string, participantName: string, options?: TranscriptionOptions): TranscriptionStream
+  transcribeRecording?(recording: ParticipantRecording, options?: TranscriptionOptions): Promise<BatchTranscriptSegment[]>
 }
 
 export interface WebhookPayload {
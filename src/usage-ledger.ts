@@ -0,0 +1,306 @@
+/**
+ * Usage Ledger
+ *
+ * Meters billed speech per host while meetings run. Each session has one
+ * ledger row (host_usage_ledger) that is updated as speech accrues, so a
+ * host's usage is the sum of their rows in the current quota period.
+ *
+ * Hosts with a token limit (host_quotas, or DEFAULT_HOST_TOKEN_LIMIT) are
+ * refused new sessions once it is used up, warned during a meeting as usage
+ * crosses USAGE_WARNING_THRESHOLDS, and stopped when it runs out.
+ */
+
+import {
+  getHostLedgerUsage,
+  getHostQuota,
+  upsertUsageLedgerEntry
+} from './supabase'
+import { createLogger } from './logger'
+
+export type BillingMode = 'live' | 'post-call'
+
+export interface HostBudget {
+  /** null when the host has no limit */
+  limitTokens: number | null
+  usedTokens: number
+  remainingTokens: number | null
+}
+
+export interface UsageAlert {
+  type: 'warning' | 'exhausted'
+  /** Fraction of the limit that was crossed */
+  threshold: number
+  usedTokens: number
+  limitTokens: number
+  remainingTokens: number
+}
+
+export interface UsageLedgerEntry {
+  sessionId: string
+  hostId: string
+  roomId: string
+  mode: BillingMode
+  speechSeconds: number
+  tokens: number
+  status: 'open' | 'closed'
+}
+
+interface UsageHandlers {
+  onAlert: (alert: UsageAlert) => void
+}
+
+interface OpenSession {
+  sessionId: string
+  hostId: string
+  roomId: string
+  mode: BillingMode
+  speechMs: number
+  dirty: boolean
+  alerted: Set<number>
+  handlers: UsageHandlers
+}
+
+interface HostState {
+  limitTokens: number | null
+  // Recorded tokens by session. A session open in this process counts its
+  // metered speech instead, so a resumed session's own row isn't counted twice.
+  ledgerTokens: Map<string, number>
+}
+
+/**
+ * Where quotas and ledger rows are kept (Supabase outside tests)
+ */
+export interface UsageStore {
+  getHostQuota(hostId: string): Promise<{ tokenLimit: number | null; periodStart?: Date } | null>
+  getHostLedgerUsage(hostId: string, since?: Date): Promise<Array<{ sessionId: string; tokens: number }>>
+  upsertUsageLedgerEntry(entry: UsageLedgerEntry): Promise<void>
+}
+
+const supabaseUsageStore: UsageStore = {
+  getHostQuota,
+  getHostLedgerUsage,
+  upsertUsageLedgerEntry
+}
+
+const log = createLogger('Usage')
+
+// Speech is billed per hour, per mode
+const TOKENS_PER_HOUR: Record<BillingMode, number> = {
+  'live': Number(process.env.TOKENS_PER_HOUR_LIVE) || 8,
+  'post-call': Number(process.env.TOKENS_PER_HOUR_POST_CALL) || 8
+}
+
+const WARNING_THRESHOLDS = (process.env.USAGE_WARNING_THRESHOLDS || '0.8,0.95')
+  .split(',')
+  .map(Number)
+  .filter(threshold => threshold > 0 && threshold < 1)
+  .sort((a, b) => a - b)
+
+const FLUSH_INTERVAL_MS = Number(process.env.USAGE_FLUSH_INTERVAL_MS) || 30000
+
+// Metered and reported speech may differ by a chunk or two; log anything bigger
+const RECONCILE_TOLERANCE_MS = 1000
+
+/**
+ * Tokens for an amount of speech in a mode
+ */
+export function tokensForSpeech(speechMs: number, mode: BillingMode): number {
+  return (speechMs / 3600000) * TOKENS_PER_HOUR[mode]
+}
+
+export class UsageLedger {
+  private store: UsageStore
+  private sessions: Map<string, OpenSession> = new Map()
+  private hosts: Map<string, HostState> = new Map()
+  private flushTimer: NodeJS.Timeout | null = null
+
+  constructor(store: UsageStore = supabaseUsageStore) {
+    this.store = store
+  }
+
+  /**
+   * Load a host's limit and recorded usage. Fails open (no limit) if Supabase
+   * can't be reached, so an outage doesn't block meetings.
+   */
+  async checkBudget(hostId: string): Promise<HostBudget> {
+    try {
+      const quota = await this.store.getHostQuota(hostId)
+      const envLimit = Number(process.env.DEFAULT_HOST_TOKEN_LIMIT)
+      const limitTokens = quota?.tokenLimit ?? (envLimit > 0 ? envLimit : null)
+
+      const rows = await this.store.getHostLedgerUsage(hostId, quota?.periodStart)
+      const ledgerTokens = new Map(rows.map(row => [row.sessionId, row.tokens]))
+
+      this.hosts.set(hostId, { limitTokens, ledgerTokens })
+    } catch (error) {
+      log.error('Could not load host budget, not enforcing a limit', { hostId, error })
+      this.hosts.set(hostId, { limitTokens: null, ledgerTokens: new Map() })
+    }
+
+    return this.getBudget(hostId)
+  }
+
+  /**
+   * Current budget from the last loaded state plus sessions open in this process
+   */
+  getBudget(hostId: string): HostBudget {
+    const host = this.hosts.get(hostId) ?? { limitTokens: null, ledgerTokens: new Map() }
+    let usedTokens = 0
+
+    for (const [sessionId, tokens] of host.ledgerTokens) {
+      if (!this.sessions.has(sessionId)) usedTokens += tokens
+    }
+    for (const session of this.sessions.values()) {
+      if (session.hostId === hostId) {
+        usedTokens += tokensForSpeech(session.speechMs, session.mode)
+      }
+    }
+
+    return {
+      limitTokens: host.limitTokens,
+      usedTokens,
+      remainingTokens: host.limitTokens === null ? null : Math.max(0, host.limitTokens - usedTokens)
+    }
+  }
+
+  /**
+   * Start metering a session. Call checkBudget for the host first.
+   * A resumed session passes the speech it had already billed.
+   */
+  openSession(
+    session: { sessionId: string; hostId: string; roomId: string; mode: BillingMode },
+    handlers: UsageHandlers,
+    speechMs: number = 0
+  ): void {
+    this.sessions.set(session.sessionId, {
+      ...session,
+      speechMs,
+      dirty: true,
+      alerted: new Set(),
+      handlers
+    })
+    this.startFlushing()
+  }
+
+  /**
+   * Add billed speech to a session and alert on crossed thresholds
+   */
+  recordSpeech(sessionId: string, durationMs: number): void {
+    const session = this.sessions.get(sessionId)
+    if (!session) return
+
+    session.speechMs += durationMs
+    session.dirty = true
+
+    const budget = this.getBudget(session.hostId)
+    if (budget.limitTokens === null || budget.remainingTokens === null) return
+
+    const used = budget.limitTokens > 0 ? budget.usedTokens / budget.limitTokens : 1
+    const thresholds = [...WARNING_THRESHOLDS, 1]
+
+    for (const threshold of thresholds) {
+      if (used < threshold || session.alerted.has(threshold)) continue
+      session.alerted.add(threshold)
+
+      session.handlers.onAlert({
+        type: threshold >= 1 ? 'exhausted' : 'warning',
+        threshold,
+        usedTokens: budget.usedTokens,
+        limitTokens: budget.limitTokens,
+        remainingTokens: budget.remainingTokens
+      })
+    }
+  }
+
+  /**
+   * Finish a session: reconcile metered speech against the bot's final
+   * figure, write the closed ledger row and return the session's tokens
+   */
+  async closeSession(sessionId: string, speechDurationMs: number): Promise<number> {
+    const session = this.sessions.get(sessionId)
+    if (!session) return 0
+
+    if (Math.abs(session.speechMs - speechDurationMs) > RECONCILE_TOLERANCE_MS) {
+      log.warn('Metered and reported speech differ; billing the reported figure', {
+        roomId: session.roomId,
+        sessionId,
+        meteredMs: Math.round(session.speechMs),
+        reportedMs: Math.round(speechDurationMs)
+      })
+    }
+
+    session.speechMs = speechDurationMs
+    const tokens = tokensForSpeech(speechDurationMs, session.mode)
+
+    await this.store.upsertUsageLedgerEntry(this.toEntry(session, 'closed'))
+
+    // The closed row now stands for the session
+    this.hosts.get(session.hostId)?.ledgerTokens.set(sessionId, tokens)
+
+    this.sessions.delete(sessionId)
+    if (this.sessions.size === 0) this.stopFlushing()
+
+    return tokens
+  }
+
+  /**
+   * Write the closed ledger row of a session this process never metered
+   * (one interrupted by a crash) and return its tokens
+   */
+  async settleSession(
+    session: { sessionId: string; hostId: string; roomId: string; mode: BillingMode },
+    speechDurationMs: number
+  ): Promise<number> {
+    const tokens = tokensForSpeech(speechDurationMs, session.mode)
+
+    await this.store.upsertUsageLedgerEntry({
+      ...session,
+      speechSeconds: speechDurationMs / 1000,
+      tokens,
+      status: 'closed'
+    })
+
+    return tokens
+  }
+
+  private toEntry(session: OpenSession, status: UsageLedgerEntry['status']): UsageLedgerEntry {
+    return {
+      sessionId: session.sessionId,
+      hostId: session.hostId,
+      roomId: session.roomId,
+      mode: session.mode,
+      speechSeconds: session.speechMs / 1000,
+      tokens: tokensForSpeech(session.speechMs, session.mode),
+      status
+    }
+  }
+
+  /**
+   * Write accrued usage of open sessions, so other instances see it
+   */
+  private async flush(): Promise<void> {
+    for (const session of this.sessions.values()) {
+      if (!session.dirty) continue
+      session.dirty = false
+      await this.store.upsertUsageLedgerEntry(this.toEntry(session, 'open'))
+    }
+  }
+
+  private startFlushing(): void {
+    if (this.flushTimer) return
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(error => log.error('Error flushing usage ledger', { error }))
+    }, FLUSH_INTERVAL_MS)
+    this.flushTimer.unref()
+  }
+
+  private stopFlushing(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+      this.flushTimer = null
+    }
+  }
+}
+
+// Singleton instance
+export const usageLedger = new UsageLedger()
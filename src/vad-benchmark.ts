@@ -0,0 +1,107 @@
+/**
+ * VAD Benchmark
+ *
+ * Runs the VAD strategies over the synthetic fixtures and reports the
+ * tradeoff between billed audio, missed speech and false positives
+ * (non-speech audio sent). The same runs are asserted in test/vad.test.ts.
+ *
+ * Usage: npm run bench:vad
+ */
+
+import { AudioBuffer, createVad, VAD_STRATEGIES, VadStrategy, VadStrategyName } from './vad'
+import { FIXTURE_SAMPLE_RATE, VadFixture, getVadFixtures } from './vad-fixtures'
+
+const CHUNK_SIZE = 4800 // 300ms at 16kHz, same as LiveKitBot
+export const CHUNK_MS = (CHUNK_SIZE / FIXTURE_SAMPLE_RATE) * 1000
+
+/**
+ * A detector under test: given each chunk, returns the chunks it would send
+ */
+export type Detector = (chunk: Float32Array) => Float32Array[]
+
+export interface BenchmarkResult {
+  fixture: string
+  detector: string
+  speechSeconds: number
+  billedSeconds: number
+  missedSpeechSeconds: number
+  falsePositiveSeconds: number
+  // Share of non-speech chunks that were sent
+  falsePositiveRate: number
+}
+
+/**
+ * A fresh detector for a VAD strategy with its default config
+ */
+export function createDetector(strategy: VadStrategyName): Detector {
+  const vad: VadStrategy = createVad({ strategy })
+  return (chunk) => vad.process(chunk, CHUNK_MS).chunks
+}
+
+/**
+ * Run one detector over one fixture
+ */
+export function runBenchmark(fixture: VadFixture, name: string, detector: Detector): BenchmarkResult {
+  const buffer = new AudioBuffer(CHUNK_SIZE)
+  const chunks = buffer.addSamples(fixture.audio)
+  const chunkIndex = new Map(chunks.map((chunk, index) => [chunk, index]))
+  const sent = new Set<number>()
+
+  for (const chunk of chunks) {
+    for (const sentChunk of detector(chunk)) {
+      sent.add(chunkIndex.get(sentChunk)!)
+    }
+  }
+
+  let speechSamples = 0
+  let missedSamples = 0
+  let falsePositiveChunks = 0
+  let nonSpeechChunks = 0
+
+  chunks.forEach((_, index) => {
+    const labels = fixture.speech.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)
+    const speechInChunk = labels.reduce((sum, label) => sum + label, 0)
+
+    speechSamples += speechInChunk
+    if (!sent.has(index)) missedSamples += speechInChunk
+    if (speechInChunk === 0) nonSpeechChunks++
+    if (sent.has(index) && speechInChunk === 0) falsePositiveChunks++
+  })
+
+  return {
+    fixture: fixture.name,
+    detector: name,
+    speechSeconds: speechSamples / FIXTURE_SAMPLE_RATE,
+    billedSeconds: (sent.size * CHUNK_MS) / 1000,
+    missedSpeechSeconds: missedSamples / FIXTURE_SAMPLE_RATE,
+    falsePositiveSeconds: (falsePositiveChunks * CHUNK_MS) / 1000,
+    falsePositiveRate: nonSpeechChunks > 0 ? falsePositiveChunks / nonSpeechChunks : 0
+  }
+}
+
+/**
+ * Run every detector over every fixture
+ */
+export function runAllBenchmarks(): BenchmarkResult[] {
+  const results: BenchmarkResult[] = []
+
+  for (const fixture of getVadFixtures()) {
+    for (const strategy of VAD_STRATEGIES) {
+      results.push(runBenchmark(fixture, strategy, createDetector(strategy)))
+    }
+  }
+
+  return results
+}
+
+if (require.main === module) {
+  console.table(runAllBenchmarks().map(result => ({
+    fixture: result.fixture,
+    detector: result.detector,
+    'speech (s)': result.speechSeconds.toFixed(1),
+    'billed (s)': result.billedSeconds.toFixed(1),
+    'missed speech (s)': result.missedSpeechSeconds.toFixed(2),
+    'false positive (s)': result.falsePositiveSeconds.toFixed(1),
+    'false positive rate': `${Math.round(result.falsePositiveRate * 100)}%`
+  })))
+}
@@ -0,0 +1,223 @@
+/**
+ * Synthetic VAD Fixtures
+ *
+ * Deterministic speech-like and noise signals for benchmarking VAD
+ * strategies without shipping audio files. Every fixture is 16kHz mono
+ * and labelled per sample with whether speech is present.
+ */
+
+export const FIXTURE_SAMPLE_RATE = 16000
+
+export interface VadFixture {
+  name: string
+  audio: Float32Array
+  /** 1 where speech is present, 0 elsewhere */
+  speech: Uint8Array
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so fixtures are identical on every run
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Voiced speech stand-in: a harmonic series with a wandering pitch, shaped
+ * by three formant resonances and cut into ~4 syllables per second
+ */
+export function synthSpeech(durationMs: number, amplitude: number, random: () => number): Float32Array {
+  const length = Math.round((durationMs / 1000) * FIXTURE_SAMPLE_RATE)
+  const audio = new Float32Array(length)
+  const basePitch = 110 + random() * 90
+  const formants = [600 + random() * 200, 1200 + random() * 600, 2500]
+  let phase = 0
+
+  for (let i = 0; i < length; i++) {
+    const t = i / FIXTURE_SAMPLE_RATE
+    const pitch = basePitch * (1 + 0.08 * Math.sin(2 * Math.PI * 1.3 * t))
+    phase += (2 * Math.PI * pitch) / FIXTURE_SAMPLE_RATE
+
+    let sample = 0
+    for (let harmonic = 1; harmonic * pitch < 4000; harmonic++) {
+      const hz = harmonic * pitch
+      const gain = formants.reduce((sum, formant) => sum + Math.exp(-Math.pow((hz - formant) / 150, 2)), 0.05)
+      sample += gain * Math.sin(phase * harmonic)
+    }
+
+    // Syllable envelope, fading in from silence so onsets start quietly
+    const envelope = Math.pow(Math.abs(Math.sin(Math.PI * 4 * t)), 0.7)
+    audio[i] = amplitude * 0.5 * sample * envelope
+  }
+
+  return audio
+}
+
+/**
+ * Stationary white noise
+ */
+export function synthNoise(durationMs: number, amplitude: number, random: () => number): Float32Array {
+  const length = Math.round((durationMs / 1000) * FIXTURE_SAMPLE_RATE)
+  const audio = new Float32Array(length)
+
+  for (let i = 0; i < length; i++) {
+    audio[i] = amplitude * (random() * 2 - 1)
+  }
+
+  return audio
+}
+
+/**
+ * Fan / HVAC stand-in: low-passed (brown) noise, energy mostly below 300 Hz
+ */
+export function synthFan(durationMs: number, amplitude: number, random: () => number): Float32Array {
+  const length = Math.round((durationMs / 1000) * FIXTURE_SAMPLE_RATE)
+  const audio = new Float32Array(length)
+  let value = 0
+
+  for (let i = 0; i < length; i++) {
+    value = 0.98 * value + 0.02 * (random() * 2 - 1)
+    audio[i] = amplitude * 10 * value
+  }
+
+  return audio
+}
+
+/**
+ * Keyboard clatter stand-in: short decaying broadband clicks at typing speed
+ */
+export function synthKeyboard(durationMs: number, amplitude: number, random: () => number): Float32Array {
+  const length = Math.round((durationMs / 1000) * FIXTURE_SAMPLE_RATE)
+  const audio = new Float32Array(length)
+  let next = 0
+
+  while (next < length) {
+    const clickLength = Math.round(0.008 * FIXTURE_SAMPLE_RATE)
+    for (let i = 0; i < clickLength && next + i < length; i++) {
+      audio[next + i] = amplitude * (random() * 2 - 1) * Math.exp(-i / (clickLength / 4))
+    }
+    // 5-10 keystrokes per second
+    next += Math.round((0.1 + random() * 0.1) * FIXTURE_SAMPLE_RATE)
+  }
+
+  return audio
+}
+
+/**
+ * Background music stand-in: sustained chords with rich harmonics
+ */
+export function synthMusic(durationMs: number, amplitude: number, random: () => number): Float32Array {
+  const length = Math.round((durationMs / 1000) * FIXTURE_SAMPLE_RATE)
+  const audio = new Float32Array(length)
+  const chords = [[220, 277, 330], [196, 247, 294], [175, 220, 262], [165, 208, 247]]
+  const chordSamples = FIXTURE_SAMPLE_RATE
+  const offset = Math.floor(random() * chords.length)
+
+  for (let i = 0; i < length; i++) {
+    const chord = chords[(Math.floor(i / chordSamples) + offset) % chords.length]
+    const t = i / FIXTURE_SAMPLE_RATE
+    let sample = 0
+
+    for (const note of chord) {
+      for (let harmonic = 1; harmonic <= 6; harmonic++) {
+        sample += Math.sin(2 * Math.PI * note * harmonic * t) / (harmonic * chord.length)
+      }
+    }
+
+    audio[i] = amplitude * sample
+  }
+
+  return audio
+}
+
+/**
+ * Mix `overlay` into `base` in place
+ */
+function mixInto(base: Float32Array, overlay: Float32Array): void {
+  for (let i = 0; i < base.length && i < overlay.length; i++) {
+    base[i] += overlay[i]
+  }
+}
+
+type NoiseGenerator = (durationMs: number, amplitude: number, random: () => number) => Float32Array
+
+/**
+ * Build a fixture from alternating speech/silence segments over a noise bed
+ */
+function buildFixture(
+  name: string,
+  seed: number,
+  segments: Array<{ speechMs?: number; silenceMs?: number }>,
+  speechAmplitude: number,
+  noiseAmplitude: number,
+  noise: NoiseGenerator = synthNoise,
+  noiseStartMs: number = 0
+): VadFixture {
+  const random = createRandom(seed)
+  const parts: Float32Array[] = []
+  const labels: Uint8Array[] = []
+
+  for (const segment of segments) {
+    if (segment.speechMs) {
+      const speech = synthSpeech(segment.speechMs, speechAmplitude, random)
+      parts.push(speech)
+      labels.push(new Uint8Array(speech.length).fill(1))
+    }
+    if (segment.silenceMs) {
+      const length = Math.round((segment.silenceMs / 1000) * FIXTURE_SAMPLE_RATE)
+      parts.push(new Float32Array(length))
+      labels.push(new Uint8Array(length))
+    }
+  }
+
+  const total = parts.reduce((sum, part) => sum + part.length, 0)
+  const audio = new Float32Array(total)
+  const speech = new Uint8Array(total)
+  let offset = 0
+  parts.forEach((part, index) => {
+    audio.set(part, offset)
+    speech.set(labels[index], offset)
+    offset += part.length
+  })
+
+  if (noiseAmplitude > 0) {
+    const noiseStart = Math.round((noiseStartMs / 1000) * FIXTURE_SAMPLE_RATE)
+    const noiseMs = ((total - noiseStart) / FIXTURE_SAMPLE_RATE) * 1000
+    mixInto(audio.subarray(noiseStart), noise(noiseMs, noiseAmplitude, random))
+  }
+
+  return { name, audio, speech }
+}
+
+// Conversation pattern: short and long turns separated by pauses
+const CONVERSATION = [
+  { silenceMs: 2000 },
+  { speechMs: 1800, silenceMs: 1500 },
+  { speechMs: 4200, silenceMs: 600 },
+  { speechMs: 900, silenceMs: 3000 },
+  { speechMs: 2500, silenceMs: 2000 }
+]
+
+/**
+ * The bundled fixture set
+ */
+export function getVadFixtures(): VadFixture[] {
+  return [
+    buildFixture('quiet room', 1, CONVERSATION, 0.2, 0.0005),
+    buildFixture('quiet speaker', 2, CONVERSATION, 0.02, 0.0005),
+    buildFixture('noisy mic', 3, CONVERSATION, 0.2, 0.02),
+    // Noise switching on mid-call, after the noise floor has settled on silence
+    buildFixture('noise only', 4, [{ silenceMs: 15000 }], 0, 0.02, synthNoise, 3000),
+    buildFixture('fan only', 5, [{ silenceMs: 15000 }], 0, 0.05, synthFan, 3000),
+    buildFixture('keyboard only', 6, [{ silenceMs: 15000 }], 0, 0.3, synthKeyboard, 3000),
+    buildFixture('music only', 7, [{ silenceMs: 15000 }], 0, 0.1, synthMusic, 3000),
+    buildFixture('speech over keyboard', 8, CONVERSATION, 0.2, 0.3, synthKeyboard)
+  ]
+}
@@ -1,10 +1,16 @@
 /**
  * Voice Activity Detection (VAD)
  *
- * Simple RMS-based VAD to detect when someone is speaking.
- * This saves money by not sending silent audio to AssemblyAI.
+ * Detects when someone is speaking, using a fixed RMS threshold, an adaptive
+ * RMS detector or a spectral detector. This saves money by not sending silent
+ * audio to AssemblyAI.
  */
 
+import { fft } from './fft'
+import { createLogger } from './logger'
+
+const log = createLogger('VAD')
+
 // Default threshold - audio below this RMS level is considered silence
 const DEFAULT_THRESHOLD = 0.01
 
@@ -120,3 +126,427 @@ export class AudioBuffer {
     this.writeIndex = 0
   }
 }
+
+/**
+ * Tunables for the stateful VADs. Thresholds are RMS levels (0-1);
+ * ratios are relative to the estimated noise floor.
+ */
+export interface VadConfig {
+  // Which detector to use (default: VAD_STRATEGY env var, else 'fixed')
+  strategy: VadStrategyName
+  // Speech is never detected below this level, however quiet the room
+  // (the 'fixed' detector's whole threshold)
+  minThreshold: number
+  // Speech starts when RMS exceeds noiseFloor * attackRatio
+  attackRatio: number
+  // Speech continues while RMS stays above noiseFloor * releaseRatio
+  releaseRatio: number
+  // Keep sending this long after speech drops, so trailing words aren't cut off
+  hangoverMs: number
+  // Audio before speech onset to send along with it, so the first syllable isn't clipped
+  preRollMs: number
+  // The noise floor is the quietest chunk seen in this window. It must be longer
+  // than the longest stretch of speech without a pause; a steady noise source
+  // (fan, hum) is also picked up sooner, once it has been steady for STEADY_NOISE_MS.
+  noiseWindowMs: number
+}
+
+export type VadStrategyName = 'fixed' | 'rms' | 'spectral'
+
+export const VAD_STRATEGIES: VadStrategyName[] = ['fixed', 'rms', 'spectral']
+
+export function isVadStrategyName(value: unknown): value is VadStrategyName {
+  return typeof value === 'string' && (VAD_STRATEGIES as string[]).includes(value)
+}
+
+// The adaptive detectors send more non-speech than the fixed threshold on the
+// quiet fixtures (hangover and pre-roll), so they are opt-in for now
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  strategy: 'fixed',
+  minThreshold: 0.001,
+  attackRatio: 3,
+  releaseRatio: 1.5,
+  hangoverMs: 600,
+  preRollMs: 300,
+  noiseWindowMs: 8000
+}
+
+export interface VadResult {
+  // Whether this chunk counts as speech (including hangover)
+  isSpeech: boolean
+  // Chunks to forward now, oldest first: any pre-roll, then the current chunk
+  chunks: Float32Array[]
+}
+
+/**
+ * A stateful, per-participant voice activity detector
+ */
+export interface VadStrategy {
+  readonly name: VadStrategyName
+  /** Classify a chunk and return the audio that should be sent */
+  process(chunk: Float32Array, chunkDurationMs: number): VadResult
+  reset(): void
+}
+
+// Level variation between 20ms frames below which a chunk sounds like steady
+// noise; speech is cut into syllables and varies far more
+const STEADY_FRAME_SIZE = 320
+const MAX_STEADY_VARIATION = 0.28
+// Steady audio at a similar level for this long is taken as the new noise floor
+const STEADY_NOISE_MS = 900
+const MAX_STEADY_LEVEL_RATIO = 2
+
+/**
+ * Whether a chunk's level is steady from frame to frame (coefficient of
+ * variation of 20ms frame RMS), as with fans, hum or hiss
+ */
+export function isSteadyChunk(chunk: Float32Array): boolean {
+  const levels: number[] = []
+  for (let start = 0; start + STEADY_FRAME_SIZE <= chunk.length; start += STEADY_FRAME_SIZE) {
+    levels.push(calculateRMS(chunk.subarray(start, start + STEADY_FRAME_SIZE)))
+  }
+  if (levels.length < 2) return false
+
+  const mean = levels.reduce((sum, level) => sum + level, 0) / levels.length
+  if (mean === 0) return false
+
+  const variance = levels.reduce((sum, level) => sum + (level - mean) * (level - mean), 0) / levels.length
+  return Math.sqrt(variance) / mean < MAX_STEADY_VARIATION
+}
+
+/**
+ * Tracks the noise floor as the quietest level seen in a sliding window.
+ * A steady noise bed that starts mid-call raises the floor as soon as it has
+ * lasted STEADY_NOISE_MS, rather than once quieter audio has left the window.
+ */
+class NoiseFloorTracker {
+  private levels: number[] = []
+  // Levels of the current run of steady chunks
+  private steadyLevels: number[] = []
+  private floor: number
+  private initial: number
+  private windowMs: number
+
+  constructor(initial: number, windowMs: number) {
+    this.initial = initial
+    this.floor = initial
+    this.windowMs = windowMs
+  }
+
+  update(level: number, durationMs: number, steady: boolean): void {
+    const windowSize = Math.max(1, Math.ceil(this.windowMs / durationMs))
+
+    this.levels.push(level)
+    if (this.levels.length > windowSize) {
+      this.levels.shift()
+    }
+
+    const runLength = Math.max(1, Math.ceil(STEADY_NOISE_MS / durationMs))
+    this.steadyLevels = steady ? [...this.steadyLevels, level].slice(-runLength) : []
+
+    const steadyFloor = Math.min(...this.steadyLevels)
+    if (
+      this.steadyLevels.length === runLength &&
+      steadyFloor > 0 &&
+      Math.max(...this.steadyLevels) / steadyFloor < MAX_STEADY_LEVEL_RATIO
+    ) {
+      // Forget the quieter audio from before the noise started
+      this.levels = this.levels.filter(windowLevel => windowLevel >= steadyFloor)
+    }
+
+    this.floor = Math.min(...this.levels)
+  }
+
+  get(): number {
+    return this.floor
+  }
+
+  reset(): void {
+    this.levels = []
+    this.steadyLevels = []
+    this.floor = this.initial
+  }
+}
+
+/**
+ * Turns per-chunk speech decisions into what to send: keeps the gate open
+ * for the hangover after speech and releases the pre-roll buffer on onset
+ */
+class SpeechGate {
+  private speaking = false
+  private hangoverRemainingMs = 0
+  private preRoll: Float32Array[] = []
+  private preRollBufferedMs = 0
+  private hangoverMs: number
+  private preRollMs: number
+
+  constructor(hangoverMs: number, preRollMs: number) {
+    this.hangoverMs = hangoverMs
+    this.preRollMs = preRollMs
+  }
+
+  /**
+   * Whether speech (or its hangover) is in progress
+   */
+  isOpen(): boolean {
+    return this.speaking || this.hangoverRemainingMs > 0
+  }
+
+  next(chunk: Float32Array, chunkDurationMs: number, isSpeech: boolean): VadResult {
+    const wasOpen = this.isOpen()
+    let send: boolean
+
+    if (isSpeech) {
+      this.speaking = true
+      this.hangoverRemainingMs = this.hangoverMs
+      send = true
+    } else {
+      this.speaking = false
+      send = this.hangoverRemainingMs > 0
+      this.hangoverRemainingMs = Math.max(0, this.hangoverRemainingMs - chunkDurationMs)
+    }
+
+    if (send) {
+      const chunks = wasOpen ? [chunk] : [...this.preRoll, chunk]
+      this.preRoll = []
+      this.preRollBufferedMs = 0
+      return { isSpeech: true, chunks }
+    }
+
+    this.pushPreRoll(chunk, chunkDurationMs)
+    return { isSpeech: false, chunks: [] }
+  }
+
+  reset(): void {
+    this.speaking = false
+    this.hangoverRemainingMs = 0
+    this.preRoll = []
+    this.preRollBufferedMs = 0
+  }
+
+  private pushPreRoll(chunk: Float32Array, chunkDurationMs: number): void {
+    if (this.preRollMs <= 0) return
+
+    this.preRoll.push(chunk)
+    this.preRollBufferedMs += chunkDurationMs
+
+    // Keep only as many chunks as cover preRollMs
+    while (this.preRoll.length > 1 && this.preRollBufferedMs - chunkDurationMs >= this.preRollMs) {
+      this.preRoll.shift()
+      this.preRollBufferedMs -= chunkDurationMs
+    }
+  }
+}
+
+/**
+ * The original detector: a chunk is speech when its RMS is above minThreshold.
+ * No hangover or pre-roll.
+ */
+export class FixedThresholdVad implements VadStrategy {
+  readonly name = 'fixed'
+  private threshold: number
+
+  constructor(config: Partial<VadConfig> = {}) {
+    this.threshold = config.minThreshold ?? DEFAULT_VAD_CONFIG.minThreshold
+  }
+
+  process(chunk: Float32Array): VadResult {
+    const isSpeech = detectVoiceActivity(chunk, this.threshold)
+    return { isSpeech, chunks: isSpeech ? [chunk] : [] }
+  }
+
+  reset(): void {
+    // Stateless
+  }
+}
+
+/**
+ * RMS energy VAD with a tracked noise floor, attack/release hysteresis,
+ * hangover and a pre-roll buffer.
+ */
+export class AdaptiveVad implements VadStrategy {
+  readonly name = 'rms'
+  private config: VadConfig
+  private noiseFloor: NoiseFloorTracker
+  private gate: SpeechGate
+
+  constructor(config: Partial<VadConfig> = {}) {
+    this.config = { ...DEFAULT_VAD_CONFIG, ...config }
+    this.noiseFloor = new NoiseFloorTracker(this.config.minThreshold, this.config.noiseWindowMs)
+    this.gate = new SpeechGate(this.config.hangoverMs, this.config.preRollMs)
+  }
+
+  process(chunk: Float32Array, chunkDurationMs: number): VadResult {
+    const rms = calculateRMS(chunk)
+    const { minThreshold, attackRatio, releaseRatio } = this.config
+
+    // Easier to stay in speech than to enter it
+    const ratio = this.gate.isOpen() ? releaseRatio : attackRatio
+    const isSpeech = rms > Math.max(minThreshold, this.noiseFloor.get() * ratio)
+
+    this.noiseFloor.update(rms, chunkDurationMs, isSteadyChunk(chunk))
+    return this.gate.next(chunk, chunkDurationMs, isSpeech)
+  }
+
+  /**
+   * Current noise floor estimate (RMS)
+   */
+  getNoiseFloor(): number {
+    return this.noiseFloor.get()
+  }
+
+  reset(): void {
+    this.noiseFloor.reset()
+    this.gate.reset()
+  }
+}
+
+/**
+ * Per-frame features used by the spectral VAD
+ */
+export interface FrameFeatures {
+  rms: number
+  // Sign changes per sample (0-1); noise and fricatives are high, voiced speech low
+  zeroCrossingRate: number
+  // Geometric / arithmetic mean of the power spectrum (0-1); 1 is white noise
+  spectralFlatness: number
+  // Share of power in the 300-3400 Hz speech band
+  speechBandRatio: number
+}
+
+const SPECTRAL_FRAME_SIZE = 512 // 32ms at 16kHz
+const SPEECH_BAND_HZ: [number, number] = [300, 3400]
+
+// A frame looks like speech when it is loud enough and all of these hold
+const MAX_SPEECH_FLATNESS = 0.3
+const MIN_SPEECH_BAND_RATIO = 0.5
+const MAX_SPEECH_ZCR = 0.25
+
+// Share of speech-like frames a chunk needs to start / keep speech
+const ATTACK_FRAME_RATIO = 0.3
+const RELEASE_FRAME_RATIO = 0.15
+
+/**
+ * Compute spectral features for one frame
+ */
+export function computeFrameFeatures(frame: Float32Array, sampleRate: number = 16000): FrameFeatures {
+  const size = SPECTRAL_FRAME_SIZE
+  const re = new Float64Array(size)
+  const im = new Float64Array(size)
+
+  let zeroCrossings = 0
+  for (let i = 0; i < frame.length && i < size; i++) {
+    // Hann window to limit spectral leakage
+    re[i] = frame[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frame.length - 1)))
+    if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) zeroCrossings++
+  }
+
+  fft(re, im)
+
+  const binHz = sampleRate / size
+  const [bandLow, bandHigh] = SPEECH_BAND_HZ
+  let totalPower = 0
+  let bandPower = 0
+  let logSum = 0
+  const bins = size / 2
+
+  // Skip DC
+  for (let k = 1; k <= bins; k++) {
+    const power = re[k] * re[k] + im[k] * im[k]
+    const hz = k * binHz
+
+    totalPower += power
+    if (hz >= bandLow && hz <= bandHigh) bandPower += power
+    logSum += Math.log(power + 1e-12)
+  }
+
+  const arithmeticMean = totalPower / bins
+  const geometricMean = Math.exp(logSum / bins)
+
+  return {
+    rms: calculateRMS(frame),
+    zeroCrossingRate: frame.length > 1 ? zeroCrossings / (frame.length - 1) : 0,
+    spectralFlatness: arithmeticMean > 0 ? Math.min(1, geometricMean / arithmeticMean) : 1,
+    speechBandRatio: totalPower > 0 ? bandPower / totalPower : 0
+  }
+}
+
+/**
+ * Frame-based VAD combining short-term energy, zero-crossing rate, spectral
+ * flatness and speech-band energy ratio. Rejects broadband noise (fans,
+ * keyboard clatter) that an energy threshold alone lets through.
+ */
+export class SpectralVad implements VadStrategy {
+  readonly name = 'spectral'
+  private config: VadConfig
+  private noiseFloor: NoiseFloorTracker
+  private gate: SpeechGate
+
+  constructor(config: Partial<VadConfig> = {}) {
+    this.config = { ...DEFAULT_VAD_CONFIG, ...config }
+    this.noiseFloor = new NoiseFloorTracker(this.config.minThreshold, this.config.noiseWindowMs)
+    this.gate = new SpeechGate(this.config.hangoverMs, this.config.preRollMs)
+  }
+
+  process(chunk: Float32Array, chunkDurationMs: number): VadResult {
+    const { minThreshold, attackRatio, releaseRatio } = this.config
+    const open = this.gate.isOpen()
+    const energyThreshold = Math.max(minThreshold, this.noiseFloor.get() * (open ? releaseRatio : attackRatio))
+
+    let frames = 0
+    let speechFrames = 0
+    for (let start = 0; start + SPECTRAL_FRAME_SIZE <= chunk.length; start += SPECTRAL_FRAME_SIZE) {
+      const features = computeFrameFeatures(chunk.subarray(start, start + SPECTRAL_FRAME_SIZE))
+      frames++
+
+      if (
+        features.rms > energyThreshold &&
+        features.spectralFlatness < MAX_SPEECH_FLATNESS &&
+        features.speechBandRatio > MIN_SPEECH_BAND_RATIO &&
+        features.zeroCrossingRate < MAX_SPEECH_ZCR
+      ) {
+        speechFrames++
+      }
+    }
+
+    const requiredRatio = open ? RELEASE_FRAME_RATIO : ATTACK_FRAME_RATIO
+    const isSpeech = frames > 0 && speechFrames / frames >= requiredRatio
+
+    this.noiseFloor.update(calculateRMS(chunk), chunkDurationMs, isSteadyChunk(chunk))
+    return this.gate.next(chunk, chunkDurationMs, isSpeech)
+  }
+
+  reset(): void {
+    this.noiseFloor.reset()
+    this.gate.reset()
+  }
+}
+
+// Unknown strategies already warned about, so each is logged once
+const unknownStrategies: Set<string> = new Set()
+
+/**
+ * Create a VAD for one participant. The strategy comes from the config,
+ * then VAD_STRATEGY, then defaults to 'fixed'. An unknown strategy falls
+ * back to the default rather than failing the participant's stream.
+ */
+export function createVad(config: Partial<VadConfig> = {}): VadStrategy {
+  let strategy: string = config.strategy || process.env.VAD_STRATEGY || DEFAULT_VAD_CONFIG.strategy
+
+  if (!isVadStrategyName(strategy)) {
+    if (!unknownStrategies.has(strategy)) {
+      unknownStrategies.add(strategy)
+      log.warn('Unknown VAD strategy, using the default', { strategy, default: DEFAULT_VAD_CONFIG.strategy })
+    }
+    strategy = DEFAULT_VAD_CONFIG.strategy
+  }
+
+  switch (strategy) {
+    case 'spectral':
+      return new SpectralVad(config)
+    case 'rms':
+      return new AdaptiveVad(config)
+    default:
+      return new FixedThresholdVad(config)
+  }
+}
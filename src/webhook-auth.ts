@@ -0,0 +1,162 @@
+/**
+ * Webhook Authentication
+ *
+ * Verifies that incoming webhooks really come from LiveKit or MeetingBurner
+ * before they are allowed to make the bot join or leave a room.
+ *
+ * - LiveKit signs each webhook with a JWT in the Authorization header whose
+ *   sha256 claim must match the raw request body.
+ * - MeetingBurner signs `${timestamp}.${rawBody}` with a shared HMAC secret.
+ *   The timestamp must fall inside a tolerance window so captured requests
+ *   cannot be replayed later.
+ */
+
+import crypto from 'crypto'
+import { Request, Response, NextFunction } from 'express'
+import { WebhookReceiver, WebhookEvent } from 'livekit-server-sdk'
+import { createLogger } from './logger'
+
+const log = createLogger('WebhookAuth')
+
+export const MEETINGBURNER_SIGNATURE_HEADER = 'x-meetingburner-signature'
+export const MEETINGBURNER_TIMESTAMP_HEADER = 'x-meetingburner-timestamp'
+
+// Default replay window for MeetingBurner webhooks (5 minutes)
+const DEFAULT_TOLERANCE_SECONDS = 300
+
+export class WebhookAuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookAuthError'
+  }
+}
+
+/**
+ * Request with the unparsed body captured by the JSON body parser
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: string
+}
+
+/**
+ * `verify` hook for express.json() that keeps the raw body around,
+ * since signatures are computed over the exact bytes that were sent
+ */
+export function captureRawBody(req: Request, _res: Response, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf.toString('utf8')
+}
+
+/**
+ * Verify a LiveKit webhook and return the decoded event
+ */
+export async function verifyLiveKitWebhook(
+  rawBody: string,
+  authHeader: string | undefined
+): Promise<WebhookEvent> {
+  const apiKey = process.env.LIVEKIT_API_KEY
+  const apiSecret = process.env.LIVEKIT_API_SECRET
+
+  if (!apiKey || !apiSecret) {
+    throw new WebhookAuthError('Missing LIVEKIT_API_KEY or LIVEKIT_API_SECRET')
+  }
+
+  if (!authHeader) {
+    throw new WebhookAuthError('Missing Authorization header')
+  }
+
+  try {
+    return await new WebhookReceiver(apiKey, apiSecret).receive(rawBody, authHeader)
+  } catch (error) {
+    throw new WebhookAuthError(error instanceof Error ? error.message : 'Invalid signature')
+  }
+}
+
+/**
+ * Compute the MeetingBurner signature for a body and timestamp.
+ * Exported so callers (and local tooling) sign requests the same way.
+ */
+export function signMeetingBurnerPayload(rawBody: string, timestamp: string, secret: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex')
+}
+
+/**
+ * Verify a MeetingBurner webhook signature and timestamp window
+ */
+export function verifyMeetingBurnerWebhook(
+  rawBody: string,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  now: number = Date.now()
+): void {
+  const secret = process.env.MEETINGBURNER_WEBHOOK_SECRET
+  if (!secret) {
+    throw new WebhookAuthError('Missing MEETINGBURNER_WEBHOOK_SECRET')
+  }
+
+  if (!signature || !timestamp) {
+    throw new WebhookAuthError('Missing signature or timestamp header')
+  }
+
+  const timestampSeconds = Number(timestamp)
+  if (!Number.isFinite(timestampSeconds)) {
+    throw new WebhookAuthError('Invalid timestamp header')
+  }
+
+  const tolerance = Number(process.env.MEETINGBURNER_WEBHOOK_TOLERANCE_SECONDS) || DEFAULT_TOLERANCE_SECONDS
+  if (Math.abs(now / 1000 - timestampSeconds) > tolerance) {
+    throw new WebhookAuthError('Timestamp outside tolerance window')
+  }
+
+  const expected = Buffer.from(signMeetingBurnerPayload(rawBody, timestamp, secret), 'hex')
+  const provided = Buffer.from(signature.replace(/^sha256=/, ''), 'hex')
+
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    throw new WebhookAuthError('Signature mismatch')
+  }
+}
+
+/**
+ * Log a rejected webhook and answer with 401
+ */
+function rejectWebhook(req: Request, res: Response, source: string, error: unknown): void {
+  log.warn('Rejected webhook', {
+    requestId: res.locals.requestId,
+    source,
+    path: req.path,
+    ip: req.ip,
+    reason: error instanceof Error ? error.message : String(error)
+  })
+  res.status(401).json({ error: 'Unauthorized' })
+}
+
+/**
+ * Express middleware for LiveKit webhooks
+ */
+export function requireLiveKitSignature(req: Request, res: Response, next: NextFunction): void {
+  const rawBody = (req as RawBodyRequest).rawBody ?? ''
+
+  verifyLiveKitWebhook(rawBody, req.get('authorization'))
+    .then(() => next())
+    .catch(error => rejectWebhook(req, res, 'livekit', error))
+}
+
+/**
+ * Express middleware for MeetingBurner webhooks
+ */
+export function requireMeetingBurnerSignature(req: Request, res: Response, next: NextFunction): void {
+  const rawBody = (req as RawBodyRequest).rawBody ?? ''
+
+  try {
+    verifyMeetingBurnerWebhook(
+      rawBody,
+      req.get(MEETINGBURNER_SIGNATURE_HEADER),
+      req.get(MEETINGBURNER_TIMESTAMP_HEADER)
+    )
+    next()
+  } catch (error) {
+    rejectWebhook(req, res, 'meetingburner', error)
+  }
+}
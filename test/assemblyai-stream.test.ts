@@ -0,0 +1,100 @@
+import { test, describe, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import net from 'net'
+import { setLogLevel } from '../src/logger'
+
+type AssemblyAIStreamClass = typeof import('../src/assemblyai-stream').AssemblyAIStream
+type ResilientStreamClass = typeof import('../src/resilient-stream').ResilientStream
+
+let AssemblyAIStream: AssemblyAIStreamClass
+let ResilientStream: ResilientStreamClass
+
+// Accepts TCP connections but never answers the TLS handshake
+let silentServer: net.Server
+const silentSockets: net.Socket[] = []
+let refusedUrl: string
+let silentUrl: string
+
+async function listen(server: net.Server): Promise<number> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return (server.address() as net.AddressInfo).port
+}
+
+/**
+ * Wait until a condition holds, polling while the stream retries in the background
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the stream')
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+}
+
+before(async () => {
+  process.env.ASSEMBLYAI_API_KEY = 'test-key'
+  process.env.ASSEMBLYAI_SOCKET_TIMEOUT_MS = '200'
+  process.env.STREAM_CIRCUIT_FAILURES = '3'
+  setLogLevel('*', 'error')
+
+  // Read their settings at import, so load them once the environment is set
+  AssemblyAIStream = (await import('../src/assemblyai-stream')).AssemblyAIStream
+  ResilientStream = (await import('../src/resilient-stream')).ResilientStream
+
+  // A port that was just free refuses connections
+  const closed = net.createServer()
+  const refusedPort = await listen(closed)
+  await new Promise(resolve => closed.close(resolve))
+  refusedUrl = `wss://127.0.0.1:${refusedPort}/v3/ws`
+
+  silentServer = net.createServer(socket => { silentSockets.push(socket) })
+  silentUrl = `wss://127.0.0.1:${await listen(silentServer)}/v3/ws`
+})
+
+after(async () => {
+  for (const socket of silentSockets) socket.destroy()
+  await new Promise(resolve => silentServer.close(resolve))
+})
+
+describe('AssemblyAIStream.connect', () => {
+  test('rejects when the connection is refused', async () => {
+    process.env.ASSEMBLYAI_STREAMING_URL = refusedUrl
+    const stream = new AssemblyAIStream('alice', 'Alice')
+
+    await assert.rejects(stream.connect())
+    assert.equal(stream.isActive(), false)
+  })
+
+  test('rejects when the session never begins', async () => {
+    process.env.ASSEMBLYAI_STREAMING_URL = silentUrl
+    const stream = new AssemblyAIStream('alice', 'Alice')
+
+    await assert.rejects(stream.connect(), /did not begin within 200ms/)
+    assert.equal(stream.isActive(), false)
+  })
+})
+
+describe('ResilientStream over a provider that fails to connect', () => {
+  test('retries buffered audio and opens the circuit', async () => {
+    process.env.ASSEMBLYAI_STREAMING_URL = refusedUrl
+    let sessions = 0
+    const stream = new ResilientStream('assemblyai-refused', 'Alice', () => {
+      sessions++
+      return new AssemblyAIStream('alice', 'Alice')
+    })
+    stream.on('error', () => {})
+
+    // The failure is retried in the background rather than thrown
+    await stream.connect()
+    assert.equal(sessions, 1)
+    assert.equal(stream.isActive(), false)
+
+    // Buffered audio triggers an attempt, then scheduled retries until the breaker trips
+    stream.sendAudio(new Int16Array(1600))
+    await waitFor(() => stream.getStats().circuit === 'open')
+
+    assert.equal(sessions, 3)
+    assert.equal(stream.getStats().bufferedAudioMs, 100)
+    await stream.close()
+  })
+})
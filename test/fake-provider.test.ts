@@ -0,0 +1,102 @@
+import { test, describe, before } from 'node:test'
+import assert from 'node:assert/strict'
+import { createLogger, setLogLevel } from '../src/logger'
+import { AudioTimeline } from '../src/audio-timeline'
+import { createFakeProvider, FakeScript } from '../src/fake-provider'
+import { LiveKitBot } from '../src/livekit-bot'
+import { AudioBuffer, createVad } from '../src/vad'
+import { TranscriptEvent } from '../src/types'
+
+type ParticipantHandler = Parameters<LiveKitBot['createStream']>[0]
+
+const SCRIPT: FakeScript = {
+  turns: [
+    { participantId: 'alice', afterAudioMs: 300, text: 'Hello everyone', confidence: 0.9 },
+    { participantId: 'alice', afterAudioMs: 900, text: 'After the pause' },
+    { participantId: 'bob', afterAudioMs: 300, text: 'Not for Alice' }
+  ]
+}
+
+// 300ms of 16kHz audio
+const CHUNK_SAMPLES = 4800
+
+function handlerFor(participantId: string, participantName: string): ParticipantHandler {
+  return {
+    identity: participantId,
+    participantId,
+    participantName,
+    source: 'microphone',
+    generation: 0,
+    audioBuffer: new AudioBuffer(CHUNK_SAMPLES),
+    speechDurationMs: 0,
+    lastSpeechAt: 0,
+    tracks: new Map(),
+    muted: false,
+    audioClockMs: 0,
+    timeline: new AudioTimeline(),
+    vad: createVad(),
+    log: createLogger('LiveKitBot', { participantId })
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for transcripts')
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+before(() => {
+  setLogLevel('*', 'error')
+})
+
+describe('fake provider through the bot', () => {
+  test('emits scripted turns as transcript events on the meeting clock', async () => {
+    const startedAt = new Date('2026-01-01T10:00:00Z')
+    const bot = new LiveKitBot('room-1', createFakeProvider(SCRIPT), { sessionId: 'session-1', mode: 'live', startedAt })
+    const events: TranscriptEvent[] = []
+    bot.on('transcript', (event: TranscriptEvent) => events.push(event))
+
+    // The bot's live path: a resilient stream over the provider, mapped back onto the meeting clock
+    const handler = handlerFor('alice', 'Alice')
+    const stream = await bot['createStream'](handler)
+    assert.equal(stream.isActive(), true)
+
+    // Two contiguous chunks from 5s into the meeting, then speech again at 9s after a VAD gap
+    for (const meetingMs of [5000, 5300]) {
+      handler.timeline.append(300, meetingMs)
+      stream.sendAudio(new Int16Array(CHUNK_SAMPLES))
+    }
+    handler.timeline.markGap()
+    handler.timeline.append(300, 9000)
+    stream.sendAudio(new Int16Array(CHUNK_SAMPLES))
+
+    await waitFor(() => events.length === 2)
+    await stream.close()
+
+    const [first, second] = events
+    assert.equal(first.roomId, 'room-1')
+    assert.equal(first.sessionId, 'session-1')
+    assert.equal(first.participantId, 'alice')
+    assert.equal(first.participantName, 'Alice')
+    assert.match(first.segmentId, /^session-1:[^:]+:alice:0:.+:fake-alice:0$/)
+    assert.equal(first.text, 'Hello everyone')
+    assert.equal(first.isFinal, true)
+    assert.equal(first.confidence, 0.9)
+    assert.equal(first.startMs, 5000)
+    assert.equal(first.endMs, 5300)
+    assert.equal(first.timestamp.getTime(), startedAt.getTime() + 5000)
+    assert.deepEqual(first.words.map(word => [word.text, word.startMs, word.endMs]), [
+      ['Hello', 5000, 5150],
+      ['everyone', 5150, 5300]
+    ])
+
+    assert.notEqual(second.segmentId, first.segmentId)
+    assert.equal(second.text, 'After the pause')
+    assert.equal(second.confidence, 1)
+    // Spans the audio since the first turn, which resumes after the gap
+    assert.equal(second.startMs, 5300)
+    assert.equal(second.endMs, 9300)
+  })
+})
@@ -0,0 +1,143 @@
+import { test, describe, before } from 'node:test'
+import assert from 'node:assert/strict'
+import { setLogLevel } from '../src/logger'
+import { findPii, passesLuhn, RedactionAction, RedactionPolicy, redactTranscript } from '../src/redaction'
+import { TranscriptEvent, TranscriptWord } from '../src/types'
+
+function policy(defaultAction: RedactionAction = 'mask', actions: Record<string, RedactionAction> = {}): RedactionPolicy {
+  return { enabled: true, defaultAction, actions, keepOriginal: false }
+}
+
+/**
+ * Words for text, 100ms each
+ */
+function wordsOf(text: string): TranscriptWord[] {
+  return text.split(' ').map((token, index) => ({
+    text: token,
+    startMs: index * 100,
+    endMs: (index + 1) * 100,
+    confidence: 0.9
+  }))
+}
+
+function transcript(text: string, isFinal = true, words: TranscriptWord[] = wordsOf(text)): TranscriptEvent {
+  return {
+    roomId: 'room-1',
+    sessionId: 'session-1',
+    participantId: 'alice',
+    participantName: 'Alice',
+    segmentId: 'segment-1',
+    text,
+    isFinal,
+    confidence: 0.9,
+    timestamp: new Date(),
+    startMs: 0,
+    endMs: 1000,
+    words
+  }
+}
+
+function typesIn(text: string): string[] {
+  return findPii(text).map(match => match.type)
+}
+
+before(() => {
+  setLogLevel('Redaction', 'error')
+})
+
+describe('detectors', () => {
+  test('only report card numbers that pass the Luhn check', () => {
+    assert.equal(passesLuhn('4111111111111111'), true)
+    assert.equal(passesLuhn('4111111111111112'), false)
+
+    assert.deepEqual(typesIn('card 4111 1111 1111 1111 please'), ['credit_card'])
+    assert.deepEqual(typesIn('order 4111 1111 1111 1112 please'), [])
+  })
+
+  test('find SSNs, emails and phone numbers', () => {
+    const text = 'SSN 123-45-6789, mail jane.doe@example.com or call (415) 555-0132'
+    const matches = findPii(text)
+
+    assert.deepEqual(matches.map(match => match.type), ['ssn', 'email', 'phone'])
+    assert.deepEqual(matches.map(match => text.slice(match.start, match.end)), [
+      '123-45-6789',
+      'jane.doe@example.com',
+      '(415) 555-0132'
+    ])
+    // Never-issued SSN area
+    assert.deepEqual(typesIn('ref 666-45-6789'), [])
+  })
+})
+
+describe('redactTranscript', () => {
+  test('masks matches and collapses the words they cover', () => {
+    const { event, counts } = redactTranscript(transcript('Call 415 555 0132 today'), policy())
+
+    assert.ok(event)
+    assert.equal(event.text, 'Call [PHONE] today')
+    assert.deepEqual(event.words.map(word => [word.text, word.startMs, word.endMs]), [
+      ['Call', 0, 100],
+      ['[PHONE]', 100, 400],
+      ['today', 400, 500]
+    ])
+    assert.deepEqual(counts, { phone: 1 })
+  })
+
+  test('hashes matches with a stable keyed digest', () => {
+    const first = redactTranscript(transcript('mail jane.doe@example.com'), policy('hash')).event
+    const second = redactTranscript(transcript('again jane.doe@example.com'), policy('hash')).event
+
+    assert.ok(first && second)
+    assert.match(first.text, /^mail \[EMAIL:[0-9a-f]{12}\]$/)
+    assert.equal(first.text.slice(5), second.text.slice(6))
+    assert.equal(first.words[1].text, first.text.slice(5))
+  })
+
+  test('drops the event when a match is set to drop', () => {
+    const result = redactTranscript(transcript('SSN 123-45-6789 and call later'), policy('mask', { ssn: 'drop' }))
+
+    assert.equal(result.event, null)
+    assert.deepEqual(result.counts, { ssn: 1 })
+  })
+
+  test('lets allowed types through', () => {
+    const original = transcript('mail jane.doe@example.com or call 415 555 0132')
+    const { event, counts } = redactTranscript(original, policy('mask', { email: 'allow' }))
+
+    assert.ok(event)
+    assert.equal(event.text, 'mail jane.doe@example.com or call [PHONE]')
+    assert.deepEqual(counts, { phone: 1 })
+    assert.equal(redactTranscript(original, policy('allow')).event, original)
+  })
+
+  test('masks digit runs in interims before they can be validated', () => {
+    const { event, counts } = redactTranscript(transcript('my card is 4111 1111', false), policy())
+
+    assert.ok(event)
+    assert.equal(event.text, 'my card is [NUMBER]')
+    assert.equal(event.words[event.words.length - 1].text, '[NUMBER]')
+    // A precaution, not a detection
+    assert.deepEqual(counts, {})
+
+    // Finals keep numbers that aren't PII
+    assert.equal(redactTranscript(transcript('my card is 4111 1111'), policy()).event?.text, 'my card is 4111 1111')
+  })
+
+  test('redacts PII that only the words contain', () => {
+    const words = wordsOf('write to jane.doe@example.com')
+    const { event, counts } = redactTranscript(transcript('write to jane doe at example dot com', true, words), policy())
+
+    assert.ok(event)
+    assert.equal(event.text, 'write to jane doe at example dot com')
+    assert.deepEqual(event.words.map(word => word.text), ['write', 'to', '[EMAIL]'])
+    assert.deepEqual(counts, { email: 1 })
+
+    const dropped = redactTranscript(transcript('write to jane doe at example dot com', true, words), policy('drop'))
+    assert.equal(dropped.event, null)
+  })
+
+  test('leaves events alone when redaction is off', () => {
+    const original = transcript('SSN 123-45-6789')
+    assert.equal(redactTranscript(original, { ...policy(), enabled: false }).event, original)
+  })
+})
@@ -0,0 +1,96 @@
+import { test, describe, before } from 'node:test'
+import assert from 'node:assert/strict'
+import { setLogLevel } from '../src/logger'
+import { MemoryLeaseStore, RoomLeases } from '../src/room-lease'
+
+const TTL_MS = 30
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+before(() => {
+  setLogLevel('Lease', 'error')
+})
+
+describe('MemoryLeaseStore', () => {
+  test('refuses a room another owner holds until the lease expires', async () => {
+    const store = new MemoryLeaseStore()
+
+    assert.equal(await store.acquire('room-1', 'a', TTL_MS), true)
+    assert.equal(await store.acquire('room-1', 'b', TTL_MS), false)
+    assert.equal(await store.getOwner('room-1'), 'a')
+
+    await sleep(TTL_MS + 10)
+    assert.equal(await store.getOwner('room-1'), null)
+    assert.deepEqual(await store.listExpired(), ['room-1'])
+    assert.equal(await store.acquire('room-1', 'b', TTL_MS), true)
+    assert.equal(await store.getOwner('room-1'), 'b')
+  })
+
+  test('lets an owner re-acquire its own lease', async () => {
+    const store = new MemoryLeaseStore()
+
+    assert.equal(await store.acquire('room-1', 'a', TTL_MS), true)
+    assert.equal(await store.acquire('room-1', 'a', TTL_MS), true)
+    assert.equal(await store.getOwner('room-1'), 'a')
+  })
+
+  test('stops renewing once another owner has taken the room over', async () => {
+    const store = new MemoryLeaseStore()
+
+    await store.acquire('room-1', 'a', TTL_MS)
+    assert.equal(await store.renew('room-1', 'a', TTL_MS), true)
+
+    await sleep(TTL_MS + 10)
+    await store.acquire('room-1', 'b', TTL_MS)
+    assert.equal(await store.renew('room-1', 'a', TTL_MS), false)
+    assert.equal(await store.getOwner('room-1'), 'b')
+  })
+
+  test('only releases our own lease', async () => {
+    const store = new MemoryLeaseStore()
+
+    await store.acquire('room-1', 'a', TTL_MS)
+    await store.release('room-1', 'b')
+    assert.equal(await store.getOwner('room-1'), 'a')
+
+    await store.release('room-1', 'a')
+    assert.equal(await store.getOwner('room-1'), null)
+  })
+})
+
+describe('RoomLeases', () => {
+  test('keeps a renewed room past its TTL', async () => {
+    const store = new MemoryLeaseStore()
+    const leases = new RoomLeases(store, 'a', TTL_MS)
+
+    assert.equal(await leases.claim('room-1'), true)
+    leases.startRenewing('room-1', () => assert.fail('lease should not be lost'))
+
+    await sleep(TTL_MS * 3)
+    assert.equal(await store.acquire('room-1', 'b', TTL_MS), false)
+    await leases.release('room-1')
+    assert.equal(await store.getOwner('room-1'), null)
+  })
+
+  test('calls onLost when another replica takes the room over', async () => {
+    const store = new MemoryLeaseStore()
+    const leases = new RoomLeases(store, 'a', TTL_MS)
+    const other = new RoomLeases(store, 'b', TTL_MS)
+
+    await leases.claim('room-1')
+    // Expired without renewals, then claimed elsewhere
+    await sleep(TTL_MS + 10)
+    assert.equal(await other.claim('room-1'), true)
+
+    const lost = new Promise<void>(resolve => leases.startRenewing('room-1', resolve))
+    await lost
+    assert.equal(await leases.isHeldElsewhere('room-1'), true)
+
+    // Releasing after the loss leaves the new owner's lease alone
+    await leases.release('room-1')
+    assert.equal(await store.getOwner('room-1'), 'b')
+    await other.release('room-1')
+  })
+})
@@ -0,0 +1,45 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert/strict'
+import { SessionAnalytics, SessionAnalyticsTracker } from '../src/speaker-analytics'
+
+function statsFor(analytics: SessionAnalytics, participantId: string) {
+  const stats = analytics.speakers.find(speaker => speaker.participantId === participantId)
+  assert.ok(stats, `missing speaker ${participantId}`)
+  return stats
+}
+
+describe('SessionAnalyticsTracker', () => {
+  test('counts talking over someone who then yields as an interruption', () => {
+    const tracker = new SessionAnalyticsTracker('room-1', 'session-1')
+    tracker.recordSpeech('alice', 'Alice', 0, 5000)
+    // Bob starts while Alice talks and keeps going after she stops
+    tracker.recordSpeech('bob', 'Bob', 3000, 8000)
+    // A backchannel during Alice's turn, and talking over Bob without outlasting him
+    tracker.recordSpeech('carol', 'Carol', 1000, 1500)
+    tracker.recordSpeech('carol', 'Carol', 6000, 7000)
+
+    const analytics = tracker.getAnalytics(10000)
+
+    assert.equal(statsFor(analytics, 'bob').interruptions, 1)
+    assert.equal(statsFor(analytics, 'alice').interrupted, 1)
+    assert.equal(statsFor(analytics, 'alice').interruptions, 0)
+    assert.equal(statsFor(analytics, 'carol').interruptions, 0)
+    assert.equal(statsFor(analytics, 'bob').interrupted, 0)
+  })
+
+  test('counts each interruption across a long session', () => {
+    const tracker = new SessionAnalyticsTracker('room-1', 'session-1')
+    // Alice talks for 3s every 10s; Bob cuts in 2s into each turn and talks for 3s
+    for (let turn = 0; turn < 2000; turn++) {
+      const startMs = turn * 10000
+      tracker.recordSpeech('alice', 'Alice', startMs, startMs + 3000)
+      tracker.recordSpeech('bob', 'Bob', startMs + 2000, startMs + 5000)
+    }
+
+    const analytics = tracker.getAnalytics(20000000)
+
+    assert.equal(statsFor(analytics, 'bob').interruptions, 2000)
+    assert.equal(statsFor(analytics, 'alice').interrupted, 2000)
+    assert.equal(statsFor(analytics, 'alice').overlapMs, 2000 * 1000)
+  })
+})
@@ -0,0 +1,143 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  formatMarkdown,
+  formatSrt,
+  formatText,
+  formatVtt,
+  splitIntoCues,
+  TranscriptExportMeta,
+  TranscriptSegment
+} from '../src/transcript-export'
+import { TranscriptWord } from '../src/types'
+
+function timedWords(text: string, startMs: number, stepMs: number): TranscriptWord[] {
+  return text.split(' ').map((word, index) => ({
+    text: word,
+    startMs: startMs + index * stepMs,
+    endMs: startMs + index * stepMs + 200,
+    confidence: 0.95
+  }))
+}
+
+// Two turns from Alice that merge, a speaker name with markup, and a pause
+// long enough to split Alice's last merged turn into two cues
+const SEGMENTS: TranscriptSegment[] = [
+  { speakerId: 'alice', speakerName: 'Alice', text: 'Good morning everyone.', startMs: 1000, endMs: 2500, confidence: 0.9, words: [] },
+  { speakerId: 'alice', speakerName: 'Alice', text: 'Shall we start?', startMs: 2600, endMs: 3500, confidence: 0.8, words: [] },
+  {
+    speakerId: 'bob',
+    speakerName: 'Bob <PM>',
+    text: 'Yes, let me share the roadmap first.',
+    startMs: 4000,
+    endMs: 6000,
+    confidence: 0.95,
+    words: timedWords('Yes, let me share the roadmap first.', 4000, 250)
+  },
+  { speakerId: 'alice', speakerName: 'Alice', text: 'Sounds good.', startMs: 9000, endMs: 9800, confidence: 0.9, words: [] },
+  { speakerId: 'alice', speakerName: 'Alice', text: 'After the pause.', startMs: 12500, endMs: 13500, confidence: 0.9, words: [] }
+]
+
+const META: TranscriptExportMeta = {
+  roomId: 'room-1',
+  sessionId: 'session-1',
+  startedAt: new Date('2026-01-02T10:00:00.000Z')
+}
+
+describe('formatters', () => {
+  test('SRT', () => {
+    assert.equal(formatSrt(SEGMENTS), [
+      '1',
+      '00:00:01,000 --> 00:00:03,500',
+      'Alice: Good morning everyone. Shall we start?',
+      '',
+      '2',
+      '00:00:04,000 --> 00:00:05,700',
+      'Bob <PM>: Yes, let me share the roadmap first.',
+      '',
+      '3',
+      '00:00:09,000 --> 00:00:09,800',
+      'Alice: Sounds good.',
+      '',
+      '4',
+      '00:00:12,500 --> 00:00:13,500',
+      'Alice: After the pause.',
+      ''
+    ].join('\n'))
+  })
+
+  test('WebVTT', () => {
+    assert.equal(formatVtt(SEGMENTS), [
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:03.500',
+      '<v Alice>Good morning everyone. Shall we start?',
+      '',
+      '00:00:04.000 --> 00:00:05.700',
+      '<v Bob PM>Yes, let me share the roadmap first.',
+      '',
+      '00:00:09.000 --> 00:00:09.800',
+      '<v Alice>Sounds good.',
+      '',
+      '00:00:12.500 --> 00:00:13.500',
+      '<v Alice>After the pause.',
+      ''
+    ].join('\n'))
+  })
+
+  test('Markdown', () => {
+    assert.equal(formatMarkdown(SEGMENTS, META), [
+      '# Meeting Transcript',
+      '',
+      '- **Room:** room-1',
+      '- **Session:** session-1',
+      '- **Started:** 2026-01-02T10:00:00.000Z',
+      '',
+      '**Alice** _(00:00:01)_',
+      '',
+      'Good morning everyone. Shall we start?',
+      '',
+      '**Bob <PM>** _(00:00:04)_',
+      '',
+      'Yes, let me share the roadmap first.',
+      '',
+      '**Alice** _(00:00:09)_',
+      '',
+      'Sounds good. After the pause.',
+      ''
+    ].join('\n'))
+  })
+
+  test('plain text', () => {
+    assert.equal(formatText(SEGMENTS), [
+      '[00:00:01] Alice: Good morning everyone. Shall we start?',
+      '[00:00:04] Bob <PM>: Yes, let me share the roadmap first.',
+      '[00:00:09] Alice: Sounds good. After the pause.',
+      ''
+    ].join('\n'))
+  })
+})
+
+describe('splitIntoCues', () => {
+  test('keeps cues within two subtitle lines and seven seconds', () => {
+    const text = Array.from({ length: 60 }, (_, index) => `word${index}`).join(' ')
+    const segment: TranscriptSegment = {
+      speakerId: 'alice',
+      speakerName: 'Alice',
+      text,
+      startMs: 0,
+      endMs: 30000,
+      confidence: 0.9,
+      words: timedWords(text, 0, 500)
+    }
+
+    const cues = splitIntoCues(segment)
+
+    assert.ok(cues.length > 1)
+    assert.equal(cues.map(cue => cue.text).join(' '), text)
+    for (const cue of cues) {
+      assert.ok(cue.text.length <= 84, `${cue.text.length} chars`)
+      assert.ok(cue.endMs - cue.startMs <= 7000, `${cue.endMs - cue.startMs}ms`)
+    }
+  })
+})
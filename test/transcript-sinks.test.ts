@@ -0,0 +1,126 @@
+import { test, describe, before, after, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import http from 'http'
+import net from 'net'
+import os from 'os'
+import path from 'path'
+import { setLogLevel } from '../src/logger'
+import { sinkFailures } from '../src/metrics'
+
+type SinkDispatcher = typeof import('../src/transcript-sinks').sinkDispatcher
+
+let sinkDispatcher: SinkDispatcher
+let deadLetterDir: string
+
+const originalHosts = process.env.ROOM_SINK_ALLOWED_HOSTS
+const originalSchemes = process.env.ROOM_SINK_ALLOWED_SCHEMES
+
+function sinkNames(roomSinks: unknown): string[] {
+  return sinkDispatcher.resolveSinks(roomSinks).map(sink => sink.name).sort()
+}
+
+/**
+ * Wait until a condition holds, polling while deliveries run in the background
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the sink')
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+before(async () => {
+  setLogLevel('Sinks', 'error')
+  deadLetterDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sinks-test-'))
+  process.env.SINK_DEAD_LETTER_DIR = deadLetterDir
+
+  // Reads the dead-letter directory at import, so load it once the environment is set
+  sinkDispatcher = (await import('../src/transcript-sinks')).sinkDispatcher
+})
+
+after(async () => {
+  await fs.rm(deadLetterDir, { recursive: true, force: true })
+})
+
+afterEach(() => {
+  if (originalHosts === undefined) delete process.env.ROOM_SINK_ALLOWED_HOSTS
+  else process.env.ROOM_SINK_ALLOWED_HOSTS = originalHosts
+  if (originalSchemes === undefined) delete process.env.ROOM_SINK_ALLOWED_SCHEMES
+  else process.env.ROOM_SINK_ALLOWED_SCHEMES = originalSchemes
+})
+
+describe('room sinks', () => {
+  test('are ignored until hosts are allow-listed', () => {
+    delete process.env.ROOM_SINK_ALLOWED_HOSTS
+    assert.deepEqual(sinkNames([{ name: 'crm', url: 'https://crm.example.com/hook' }]), ['jr', 'skillskit'])
+  })
+
+  test('may only use allow-listed hosts over https', () => {
+    process.env.ROOM_SINK_ALLOWED_HOSTS = 'crm.example.com, *.hooks.example.org'
+
+    assert.deepEqual(sinkNames([
+      { name: 'exact', url: 'https://crm.example.com/rooms/{roomId}' },
+      { name: 'subdomain', url: 'https://a.hooks.example.org/hook' },
+      { name: 'metadata', url: 'https://169.254.169.254/latest/meta-data' },
+      { name: 'lookalike', url: 'https://evilhooks.example.org/hook' },
+      { name: 'plain-http', url: 'http://crm.example.com/hook' },
+      { name: 'placeholder-host', url: 'https://{roomId}.hooks.example.org/hook' },
+      { name: 'no-url' }
+    ]), ['exact', 'jr', 'skillskit', 'subdomain'])
+  })
+
+  test('can disable a global sink but not override it', () => {
+    process.env.ROOM_SINK_ALLOWED_HOSTS = 'crm.example.com'
+
+    assert.deepEqual(sinkNames([{ name: 'skillskit', enabled: false }]), ['jr'])
+
+    const [jr] = sinkDispatcher.resolveSinks([{ name: 'jr', url: 'https://crm.example.com/steal', template: 'raw' }])
+    assert.equal(jr.name, 'jr')
+    assert.notEqual(jr.url, 'https://crm.example.com/steal')
+    assert.equal(jr.template, 'jr')
+  })
+})
+
+describe('sink stats', () => {
+  test('group room sinks under one key whatever they are named', async () => {
+    // Rejects every delivery without retries
+    const server = http.createServer((request, response) => {
+      request.resume()
+      response.writeHead(400).end()
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as net.AddressInfo
+    process.env.ROOM_SINK_ALLOWED_HOSTS = '127.0.0.1'
+    process.env.ROOM_SINK_ALLOWED_SCHEMES = 'http'
+
+    try {
+      const sinks = sinkDispatcher.resolveSinks(['crm-1', 'crm-2'].map(name => ({
+        name,
+        url: `http://127.0.0.1:${port}/hook`,
+        template: 'raw',
+        events: ['lifecycle']
+      }))).filter(sink => sink.scope === 'room')
+      assert.equal(sinks.length, 2)
+
+      const failuresBefore = sinkFailures.get({ sink: 'room' })
+      sinkDispatcher.dispatch(sinks, { type: 'lifecycle', state: 'started', timestamp: new Date() }, {
+        roomId: 'room-1',
+        sessionId: 'session-1'
+      })
+      await waitFor(() => sinkDispatcher.getAllStats().room?.deadLettered === 2)
+
+      const stats = sinkDispatcher.getAllStats()
+      assert.equal(stats.room.failed, 2)
+      assert.equal(stats['crm-1'], undefined)
+      assert.equal(sinkFailures.get({ sink: 'room' }), failuresBefore + 2)
+      assert.equal(sinkFailures.get({ sink: 'crm-1' }), 0)
+
+      const deadLetters = (await fs.readFile(path.join(deadLetterDir, 'room.jsonl'), 'utf8')).split('\n').filter(Boolean)
+      assert.deepEqual(deadLetters.map(line => JSON.parse(line).sink).sort(), ['crm-1', 'crm-2'])
+    } finally {
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+})
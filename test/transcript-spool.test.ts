@@ -0,0 +1,115 @@
+import { test, describe, before, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { setLogLevel } from '../src/logger'
+import { spoolDeadLetters } from '../src/metrics'
+import { SpoolRow, SpoolWriteError, TranscriptSpool } from '../src/transcript-spool'
+
+const OPTIONS = { maxAttempts: 3, retryBaseMs: 5 }
+
+let directory: string
+
+/**
+ * Wait until a condition holds, polling while the spool retries in the background
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the spool')
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+async function readLines(file: string): Promise<Record<string, unknown>[]> {
+  const contents = await fs.readFile(path.join(directory, file), 'utf8')
+  return contents.split('\n').filter(Boolean).map(line => JSON.parse(line))
+}
+
+before(() => {
+  setLogLevel('Spool', 'error')
+})
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'spool-test-'))
+})
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true })
+})
+
+describe('TranscriptSpool', () => {
+  test('writes rows in order and leaves nothing pending', async () => {
+    const written: SpoolRow[] = []
+    const spool = new TranscriptSpool(directory, async row => { written.push(row) }, OPTIONS)
+
+    await spool.enqueue('a', { text: 'one' })
+    await spool.enqueue('b', { text: 'two' })
+    await waitFor(() => spool.getBacklog() === 0)
+
+    assert.deepEqual(written, [{ text: 'one' }, { text: 'two' }])
+  })
+
+  test('dead-letters a row the database keeps rejecting and writes the rest', async () => {
+    const written: SpoolRow[] = []
+    let badAttempts = 0
+    const spool = new TranscriptSpool(directory, async row => {
+      if (row.text === 'bad') {
+        badAttempts++
+        throw new SpoolWriteError('invalid input syntax', true)
+      }
+      written.push(row)
+    }, OPTIONS)
+    const deadLettersBefore = spoolDeadLetters.get({})
+
+    await spool.enqueue('a', { text: 'bad' })
+    await spool.enqueue('b', { text: 'good' })
+    await waitFor(() => spool.getBacklog() === 0)
+
+    assert.equal(badAttempts, OPTIONS.maxAttempts)
+    assert.deepEqual(written, [{ text: 'good' }])
+    assert.equal(spoolDeadLetters.get({}), deadLettersBefore + 1)
+
+    const [deadLetter] = await readLines('transcript-spool.dead.jsonl')
+    assert.equal(deadLetter.key, 'a')
+    assert.deepEqual(deadLetter.row, { text: 'bad' })
+    assert.equal(deadLetter.attempts, OPTIONS.maxAttempts)
+  })
+
+  test('resolves whenWritten once the rows are acknowledged', async () => {
+    let attempts = 0
+    const spool = new TranscriptSpool(directory, async () => {
+      attempts++
+      if (attempts <= 2) throw new Error('fetch failed')
+    }, OPTIONS)
+
+    await spool.enqueue('a', { text: 'one' })
+    await spool.enqueue('b', { text: 'two' })
+    let written = false
+    const waiting = spool.whenWritten(['a', 'b']).then(() => { written = true })
+
+    // Still retrying the first row
+    assert.equal(written, false)
+    await waiting
+    assert.equal(spool.getBacklog(), 0)
+    assert.equal(attempts, 4)
+
+    // Rows that aren't pending count as written
+    await spool.whenWritten(['a', 'unknown'])
+  })
+
+  test('keeps retrying transient failures', async () => {
+    let attempts = 0
+    const spool = new TranscriptSpool(directory, async () => {
+      attempts++
+      if (attempts <= OPTIONS.maxAttempts + 1) throw new Error('fetch failed')
+    }, OPTIONS)
+
+    await spool.enqueue('a', { text: 'one' })
+    await waitFor(() => spool.getBacklog() === 0)
+
+    assert.equal(attempts, OPTIONS.maxAttempts + 2)
+    await assert.rejects(fs.access(path.join(directory, 'transcript-spool.dead.jsonl')))
+  })
+})
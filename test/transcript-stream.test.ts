@@ -0,0 +1,108 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert/strict'
+import http from 'http'
+import net from 'net'
+import { setLogLevel } from '../src/logger'
+import { attachTranscriptWebSocket, StreamedTranscript, transcriptHub } from '../src/transcript-stream'
+import { TranscriptEvent } from '../src/types'
+
+function transcript(roomId: string, text: string): TranscriptEvent {
+  return {
+    roomId,
+    sessionId: 'session-1',
+    participantId: 'alice',
+    participantName: 'Alice',
+    segmentId: `segment-${text}`,
+    text,
+    isFinal: true,
+    confidence: 0.9,
+    timestamp: new Date(),
+    startMs: 0,
+    endMs: 1000,
+    words: []
+  }
+}
+
+/**
+ * Send a raw WebSocket upgrade request and return the response status line
+ */
+function requestUpgrade(port: number, path: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(port, '127.0.0.1', () => {
+      socket.write([
+        `GET ${path} HTTP/1.1`,
+        'Host: localhost',
+        'Connection: Upgrade',
+        'Upgrade: websocket',
+        'Sec-WebSocket-Version: 13',
+        'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+        '',
+        ''
+      ].join('\r\n'))
+    })
+    let response = ''
+    socket.on('data', chunk => { response += chunk.toString() })
+    socket.on('end', () => resolve(response.split('\r\n')[0]))
+    socket.on('error', reject)
+  })
+}
+
+function collect(): { received: StreamedTranscript[], ended: () => boolean, subscription: Parameters<typeof transcriptHub.subscribe>[1] } {
+  const received: StreamedTranscript[] = []
+  let ended = false
+  return {
+    received,
+    ended: () => ended,
+    subscription: { speakers: null, send: item => received.push(item), end: () => { ended = true } }
+  }
+}
+
+describe('TranscriptHub', () => {
+  test('refuses subscribers for rooms that are not open', () => {
+    const { subscription } = collect()
+    assert.equal(transcriptHub.subscribe('unknown-room', subscription), null)
+    assert.equal(transcriptHub.isOpen('unknown-room'), false)
+  })
+
+  test('drops events for rooms that are not open', () => {
+    transcriptHub.publish(transcript('closed-room', 'hello'))
+    assert.equal(transcriptHub.isOpen('closed-room'), false)
+  })
+
+  test('streams and replays while open, and ends subscribers when closed', () => {
+    transcriptHub.openRoom('live-room')
+    transcriptHub.publish(transcript('live-room', 'one'))
+
+    const live = collect()
+    assert.ok(transcriptHub.subscribe('live-room', live.subscription))
+    transcriptHub.publish(transcript('live-room', 'two'))
+    assert.deepEqual(live.received.map(item => item.payload.text), ['two'])
+
+    const resumed = collect()
+    assert.ok(transcriptHub.subscribe('live-room', resumed.subscription, 0))
+    assert.deepEqual(resumed.received.map(item => item.payload.text), ['one', 'two'])
+
+    transcriptHub.closeRoom('live-room')
+    assert.ok(live.ended())
+    assert.ok(resumed.ended())
+    assert.equal(transcriptHub.isOpen('live-room'), false)
+  })
+})
+
+describe('WebSocket upgrades', () => {
+  test('answers 400 to a malformed room id and keeps serving', async () => {
+    setLogLevel('TranscriptStream', 'error')
+    const server = http.createServer()
+    attachTranscriptWebSocket(server)
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as net.AddressInfo
+
+    try {
+      assert.equal(await requestUpgrade(port, '/rooms/%E0%A4%A/stream'), 'HTTP/1.1 400 Bad Request')
+      // Still up, and unauthenticated upgrades are refused
+      assert.equal(await requestUpgrade(port, '/rooms/room-1/stream'), 'HTTP/1.1 401 Unauthorized')
+    } finally {
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+})
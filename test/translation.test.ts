@@ -0,0 +1,175 @@
+import { test, describe, before } from 'node:test'
+import assert from 'node:assert/strict'
+import { setLogLevel } from '../src/logger'
+import { Translations, Translator } from '../src/translation'
+import { TranscriptEvent } from '../src/types'
+
+type RoomTranslatorClass = typeof import('../src/translation').RoomTranslator
+
+let RoomTranslator: RoomTranslatorClass
+let stubTranslator: Translator
+
+/**
+ * The stub translator, counting engine requests
+ */
+function countingTranslator(): Translator & { requests: string[] } {
+  const requests: string[] = []
+  return {
+    name: 'counting',
+    requests,
+    translate(text, targetLanguage) {
+      requests.push(`${targetLanguage}:${text}`)
+      return stubTranslator.translate(text, targetLanguage)
+    }
+  }
+}
+
+/**
+ * A translator whose requests wait until released
+ */
+function blockingTranslator(): Translator & { requests: string[], release: () => void } {
+  const requests: string[] = []
+  let release: () => void = () => {}
+  const released = new Promise<void>(resolve => { release = resolve })
+  return {
+    name: 'blocking',
+    requests,
+    release: () => release(),
+    async translate(text, targetLanguage) {
+      requests.push(`${targetLanguage}:${text}`)
+      await released
+      return `[${targetLanguage}] ${text}`
+    }
+  }
+}
+
+function final(text: string): TranscriptEvent {
+  return {
+    roomId: 'room-1',
+    sessionId: 'session-1',
+    participantId: 'alice',
+    participantName: 'Alice',
+    segmentId: `segment-${text}`,
+    text,
+    isFinal: true,
+    confidence: 0.9,
+    timestamp: new Date(),
+    startMs: 0,
+    endMs: 1000,
+    words: []
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for translations')
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+before(async () => {
+  // Two requests a minute: the third has to wait for the limiter
+  process.env.TRANSLATION_RATE_PER_MINUTE = '2'
+  process.env.TRANSLATION_MAX_QUEUE = '3'
+  process.env.TRANSLATION_CLOSE_TIMEOUT_MS = '100'
+  setLogLevel('Translation', 'error')
+
+  // Reads its limits at import, so load it once the environment is set
+  const translation = await import('../src/translation')
+  RoomTranslator = translation.RoomTranslator
+  stubTranslator = translation.stubTranslator
+})
+
+describe('RoomTranslator', () => {
+  test('translates into each target except the spoken language', async () => {
+    const translator = new RoomTranslator('room-1', stubTranslator, ['es', 'en', 'fr'], 'en')
+
+    assert.deepEqual(translator.getTargetLanguages(), ['es', 'fr'])
+    assert.deepEqual(await translator.translate('hello'), { es: '[es] hello', fr: '[fr] hello' })
+  })
+
+  test('answers repeated text from the cache', async () => {
+    const engine = countingTranslator()
+    const translator = new RoomTranslator('room-1', engine, ['es'])
+
+    assert.deepEqual(await translator.translate('hello'), { es: '[es] hello' })
+    assert.deepEqual(await translator.translate('hello'), { es: '[es] hello' })
+    assert.deepEqual(engine.requests, ['es:hello'])
+  })
+
+  test('holds engine requests beyond the rate limit', async () => {
+    const engine = countingTranslator()
+    const translator = new RoomTranslator('room-1', engine, ['es'])
+    const translated: Translations[] = []
+
+    for (const text of ['one', 'two', 'three']) {
+      translator.enqueue(final(text), async translations => { translated.push(translations) })
+    }
+    await waitFor(() => translated.length === 2)
+    await new Promise(resolve => setTimeout(resolve, 50))
+
+    assert.deepEqual(engine.requests, ['es:one', 'es:two'])
+    assert.equal(translated.length, 2)
+
+    // Closing gives up the wait for the limiter
+    const startedAt = Date.now()
+    await translator.close()
+    assert.ok(Date.now() - startedAt < 100)
+    assert.deepEqual(engine.requests, ['es:one', 'es:two'])
+  })
+
+  test('skips finals once the queue is full', async () => {
+    const engine = blockingTranslator()
+    const translator = new RoomTranslator('room-1', engine, ['es'])
+    const translated: string[] = []
+
+    // The same text, so only the first needs the engine
+    for (let i = 0; i < 5; i++) {
+      translator.enqueue(final('hello'), async translations => { translated.push(translations.es) })
+    }
+    engine.release()
+    await waitFor(() => translated.length === 3)
+    await translator.close()
+
+    assert.equal(translated.length, 3)
+    assert.deepEqual(engine.requests, ['es:hello'])
+  })
+
+  test('close lets the translation in progress finish and drops the rest', async () => {
+    const engine = blockingTranslator()
+    const translator = new RoomTranslator('room-1', engine, ['es'])
+    const translated: string[] = []
+
+    translator.enqueue(final('one'), async translations => { translated.push(translations.es) })
+    translator.enqueue(final('two'), async translations => { translated.push(translations.es) })
+    await waitFor(() => engine.requests.length === 1)
+
+    const closed = translator.close()
+    engine.release()
+    await closed
+
+    assert.deepEqual(translated, ['[es] one'])
+    assert.deepEqual(engine.requests, ['es:one'])
+
+    // Nothing is queued after close
+    translator.enqueue(final('three'), async translations => { translated.push(translations.es) })
+    assert.deepEqual(translated, ['[es] one'])
+  })
+
+  test('close gives up on a translation that does not finish', async () => {
+    const engine = blockingTranslator()
+    const translator = new RoomTranslator('room-1', engine, ['es'])
+    const translated: string[] = []
+
+    translator.enqueue(final('stuck'), async translations => { translated.push(translations.es) })
+    await waitFor(() => engine.requests.length === 1)
+
+    const startedAt = Date.now()
+    await translator.close()
+    const elapsedMs = Date.now() - startedAt
+
+    assert.ok(elapsedMs >= 90 && elapsedMs < 1000, `closed after ${elapsedMs}ms`)
+    assert.deepEqual(translated, [])
+  })
+})
@@ -0,0 +1,163 @@
+import { test, describe, before, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { setLogLevel } from '../src/logger'
+import { UsageAlert, UsageLedger, UsageLedgerEntry, UsageStore } from '../src/usage-ledger'
+
+// At the default 8 tokens an hour, a token is 7.5 minutes of speech
+const MS_PER_TOKEN = 450000
+
+interface FakeStore extends UsageStore {
+  quota: { tokenLimit: number | null } | null
+  rows: Array<{ sessionId: string; tokens: number }>
+  written: UsageLedgerEntry[]
+  failing: boolean
+}
+
+let store: FakeStore
+let ledger: UsageLedger
+
+function session(sessionId: string) {
+  return { sessionId, hostId: 'host-1', roomId: `room-${sessionId}`, mode: 'live' as const }
+}
+
+function assertTokens(actual: number | null, expected: number): void {
+  assert.ok(actual !== null && Math.abs(actual - expected) < 1e-9, `expected ${expected} tokens, got ${actual}`)
+}
+
+before(() => {
+  setLogLevel('Usage', 'error')
+})
+
+beforeEach(() => {
+  store = {
+    quota: { tokenLimit: 1 },
+    rows: [],
+    written: [],
+    failing: false,
+    async getHostQuota() {
+      if (store.failing) throw new Error('fetch failed')
+      return store.quota
+    },
+    async getHostLedgerUsage() {
+      return store.rows
+    },
+    async upsertUsageLedgerEntry(entry) {
+      store.written.push(entry)
+    }
+  }
+  ledger = new UsageLedger(store)
+})
+
+describe('checkBudget', () => {
+  test('sums the ledger rows against the host limit', async () => {
+    store.quota = { tokenLimit: 8 }
+    store.rows = [{ sessionId: 'a', tokens: 2 }, { sessionId: 'b', tokens: 1.5 }]
+
+    const budget = await ledger.checkBudget('host-1')
+
+    assert.equal(budget.limitTokens, 8)
+    assertTokens(budget.usedTokens, 3.5)
+    assertTokens(budget.remainingTokens, 4.5)
+  })
+
+  test('has no limit without a quota', async () => {
+    store.quota = null
+    store.rows = [{ sessionId: 'a', tokens: 2 }]
+
+    const budget = await ledger.checkBudget('host-1')
+
+    assert.equal(budget.limitTokens, null)
+    assert.equal(budget.remainingTokens, null)
+    assertTokens(budget.usedTokens, 2)
+  })
+
+  test('fails open when the store cannot be reached', async () => {
+    store.failing = true
+
+    const budget = await ledger.checkBudget('host-1')
+
+    assert.equal(budget.limitTokens, null)
+    assert.equal(budget.usedTokens, 0)
+  })
+})
+
+describe('recordSpeech', () => {
+  test('warns once per threshold and then reports exhaustion', async () => {
+    const alerts: UsageAlert[] = []
+    await ledger.checkBudget('host-1')
+    ledger.openSession(session('a'), { onAlert: alert => alerts.push(alert) })
+
+    ledger.recordSpeech('a', 0.5 * MS_PER_TOKEN)
+    assert.equal(alerts.length, 0)
+
+    ledger.recordSpeech('a', 0.35 * MS_PER_TOKEN)
+    ledger.recordSpeech('a', 0.01 * MS_PER_TOKEN)
+    assert.deepEqual(alerts.map(alert => [alert.type, alert.threshold]), [['warning', 0.8]])
+
+    ledger.recordSpeech('a', 0.2 * MS_PER_TOKEN)
+    assert.deepEqual(alerts.map(alert => [alert.type, alert.threshold]), [
+      ['warning', 0.8],
+      ['warning', 0.95],
+      ['exhausted', 1]
+    ])
+    assert.equal(alerts[2].remainingTokens, 0)
+    assert.equal(alerts[2].limitTokens, 1)
+  })
+
+  test('counts usage from other sessions of the host', async () => {
+    const alerts: UsageAlert[] = []
+    store.rows = [{ sessionId: 'earlier', tokens: 0.9 }]
+    await ledger.checkBudget('host-1')
+    ledger.openSession(session('a'), { onAlert: alert => alerts.push(alert) })
+
+    ledger.recordSpeech('a', 0.05 * MS_PER_TOKEN)
+
+    assert.deepEqual(alerts.map(alert => alert.threshold), [0.8, 0.95])
+  })
+
+  test('does not count a resumed session\'s own ledger row twice', async () => {
+    const alerts: UsageAlert[] = []
+    // The interrupted session's row is still open with the speech it had billed
+    store.rows = [{ sessionId: 'a', tokens: 0.5 }]
+    assertTokens((await ledger.checkBudget('host-1')).usedTokens, 0.5)
+
+    ledger.openSession(session('a'), { onAlert: alert => alerts.push(alert) }, 0.5 * MS_PER_TOKEN)
+    ledger.recordSpeech('a', 0.2 * MS_PER_TOKEN)
+
+    assertTokens(ledger.getBudget('host-1').usedTokens, 0.7)
+    assert.deepEqual(alerts, [])
+  })
+})
+
+describe('closing sessions', () => {
+  test('closeSession bills the reported speech and keeps it in the budget', async () => {
+    await ledger.checkBudget('host-1')
+    ledger.openSession(session('a'), { onAlert: () => {} })
+    ledger.recordSpeech('a', 0.3 * MS_PER_TOKEN)
+
+    const tokens = await ledger.closeSession('a', 0.4 * MS_PER_TOKEN)
+
+    assertTokens(tokens, 0.4)
+    const closed = store.written[store.written.length - 1]
+    assert.equal(closed.sessionId, 'a')
+    assert.equal(closed.status, 'closed')
+    assert.equal(closed.speechSeconds, 180)
+    assertTokens(ledger.getBudget('host-1').usedTokens, 0.4)
+
+    // No longer metered, and closing again bills nothing
+    ledger.recordSpeech('a', MS_PER_TOKEN)
+    assertTokens(ledger.getBudget('host-1').usedTokens, 0.4)
+    assert.equal(await ledger.closeSession('a', MS_PER_TOKEN), 0)
+  })
+
+  test('settleSession writes the closed row of a session this process never metered', async () => {
+    const tokens = await ledger.settleSession(session('crashed'), 0.25 * MS_PER_TOKEN)
+
+    assertTokens(tokens, 0.25)
+    assert.equal(store.written.length, 1)
+    assert.equal(store.written[0].sessionId, 'crashed')
+    assert.equal(store.written[0].hostId, 'host-1')
+    assert.equal(store.written[0].status, 'closed')
+    assertTokens(store.written[0].tokens, 0.25)
+  })
+})
@@ -0,0 +1,108 @@
+import { test, describe, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { setLogLevel } from '../src/logger'
+import {
+  AdaptiveVad,
+  createVad,
+  DEFAULT_VAD_CONFIG,
+  FixedThresholdVad,
+  SpectralVad,
+  VAD_STRATEGIES,
+  VadStrategyName
+} from '../src/vad'
+import { BenchmarkResult, createDetector, runBenchmark } from '../src/vad-benchmark'
+import { getVadFixtures, VadFixture } from '../src/vad-fixtures'
+
+const fixtures = new Map(getVadFixtures().map(fixture => [fixture.name, fixture]))
+
+function fixture(name: string): VadFixture {
+  const found = fixtures.get(name)
+  assert.ok(found, `missing fixture ${name}`)
+  return found
+}
+
+function bench(name: string, strategy: VadStrategyName): BenchmarkResult {
+  return runBenchmark(fixture(name), strategy, createDetector(strategy))
+}
+
+const SPEECH_FIXTURES = ['quiet room', 'quiet speaker', 'noisy mic', 'speech over keyboard']
+const STEADY_NOISE_FIXTURES = ['noise only', 'fan only']
+
+describe('default strategy', () => {
+  test('is the fixed threshold', () => {
+    assert.equal(DEFAULT_VAD_CONFIG.strategy, 'fixed')
+    assert.ok(createVad() instanceof FixedThresholdVad)
+  })
+
+  test('sends no more non-speech than the fixed threshold on any fixture', () => {
+    for (const { name } of fixtures.values()) {
+      const fixed = bench(name, 'fixed')
+      const chosen = bench(name, DEFAULT_VAD_CONFIG.strategy)
+      assert.ok(
+        chosen.falsePositiveSeconds <= fixed.falsePositiveSeconds,
+        `${name}: ${chosen.falsePositiveSeconds}s > ${fixed.falsePositiveSeconds}s`
+      )
+    }
+  })
+})
+
+describe('createVad', () => {
+  const original = process.env.VAD_STRATEGY
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.VAD_STRATEGY
+    else process.env.VAD_STRATEGY = original
+  })
+
+  test('picks the configured strategy', () => {
+    assert.ok(createVad({ strategy: 'rms' }) instanceof AdaptiveVad)
+    assert.ok(createVad({ strategy: 'spectral' }) instanceof SpectralVad)
+  })
+
+  test('falls back to the default for an unknown VAD_STRATEGY', () => {
+    setLogLevel('VAD', 'error')
+    process.env.VAD_STRATEGY = 'webrtc'
+    assert.equal(createVad().name, DEFAULT_VAD_CONFIG.strategy)
+    setLogLevel('VAD', null)
+  })
+})
+
+describe('fixtures', () => {
+  test('the fixed threshold sends nothing but speech in a quiet room', () => {
+    const result = bench('quiet room', 'fixed')
+    assert.equal(result.falsePositiveSeconds, 0)
+    assert.equal(result.missedSpeechSeconds, 0)
+  })
+
+  for (const strategy of VAD_STRATEGIES) {
+    test(`${strategy} misses at most 0.2s of speech`, () => {
+      for (const name of SPEECH_FIXTURES) {
+        const result = bench(name, strategy)
+        assert.ok(result.missedSpeechSeconds <= 0.2, `${name}: missed ${result.missedSpeechSeconds}s`)
+      }
+    })
+  }
+
+  test('rms stops streaming a steady noise bed within 2s of it starting', () => {
+    for (const name of STEADY_NOISE_FIXTURES) {
+      const result = bench(name, 'rms')
+      assert.ok(result.billedSeconds <= 2, `${name}: billed ${result.billedSeconds}s`)
+    }
+  })
+
+  test('rms sends less of a noisy mic than the fixed threshold', () => {
+    assert.ok(bench('noisy mic', 'rms').falsePositiveSeconds < bench('noisy mic', 'fixed').falsePositiveSeconds)
+  })
+
+  test('spectral rejects noise, fans and keyboard clatter', () => {
+    for (const name of [...STEADY_NOISE_FIXTURES, 'keyboard only']) {
+      assert.equal(bench(name, 'spectral').billedSeconds, 0, name)
+    }
+  })
+
+  test('spectral sends less non-speech than rms over keyboard clatter', () => {
+    const spectral = bench('speech over keyboard', 'spectral')
+    const rms = bench('speech over keyboard', 'rms')
+    assert.ok(spectral.falsePositiveSeconds < rms.falsePositiveSeconds)
+  })
+})
@@ -0,0 +1,177 @@
+import { test, describe, before } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import { Request, Response } from 'express'
+import { setLogLevel } from '../src/logger'
+import {
+  MEETINGBURNER_SIGNATURE_HEADER,
+  MEETINGBURNER_TIMESTAMP_HEADER,
+  RawBodyRequest,
+  requireLiveKitSignature,
+  requireMeetingBurnerSignature,
+  signMeetingBurnerPayload,
+  verifyLiveKitWebhook,
+  verifyMeetingBurnerWebhook,
+  WebhookAuthError
+} from '../src/webhook-auth'
+
+const API_KEY = 'test-key'
+const API_SECRET = 'test-secret-that-is-long-enough-for-hs256'
+const MB_SECRET = 'mb-secret'
+
+const LIVEKIT_BODY = JSON.stringify({ event: 'room_started', room: { name: 'room-1' } })
+const MB_BODY = JSON.stringify({ event: 'room.started', roomId: 'room-1' })
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+/**
+ * A LiveKit webhook Authorization header: an HS256 JWT whose sha256 claim is the body hash
+ */
+function signLiveKit(body: string, { expiresIn = 600, secret = API_SECRET } = {}): string {
+  const now = Math.floor(Date.now() / 1000)
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+  const payload = base64url(JSON.stringify({
+    iss: API_KEY,
+    nbf: now - 60,
+    exp: now + expiresIn,
+    sha256: crypto.createHash('sha256').update(body).digest('base64')
+  }))
+  const signature = base64url(crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest())
+  return `${header}.${payload}.${signature}`
+}
+
+function signMeetingBurner(body: string, timestamp = Math.floor(Date.now() / 1000)): Record<string, string> {
+  const ts = String(timestamp)
+  return {
+    [MEETINGBURNER_SIGNATURE_HEADER]: `sha256=${signMeetingBurnerPayload(body, ts, MB_SECRET)}`,
+    [MEETINGBURNER_TIMESTAMP_HEADER]: ts
+  }
+}
+
+function fakeRequest(rawBody: string, headers: Record<string, string>): Request {
+  const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]))
+  const req: Partial<RawBodyRequest> = {
+    rawBody,
+    path: '/webhook',
+    ip: '127.0.0.1',
+    get: ((name: string) => lower[name.toLowerCase()]) as Request['get']
+  }
+  return req as Request
+}
+
+/**
+ * Run a middleware and report whether it let the request through or answered 401
+ */
+function runMiddleware(
+  middleware: (req: Request, res: Response, next: () => void) => void,
+  req: Request
+): Promise<'next' | number> {
+  return new Promise(resolve => {
+    const res = {
+      locals: {},
+      status(code: number) {
+        resolve(code)
+        return this
+      },
+      json() {
+        return this
+      }
+    } as unknown as Response
+    middleware(req, res, () => resolve('next'))
+  })
+}
+
+before(() => {
+  process.env.LIVEKIT_API_KEY = API_KEY
+  process.env.LIVEKIT_API_SECRET = API_SECRET
+  process.env.MEETINGBURNER_WEBHOOK_SECRET = MB_SECRET
+  setLogLevel('*', 'error')
+})
+
+describe('LiveKit webhooks', () => {
+  test('accepts a valid signature', async () => {
+    const event = await verifyLiveKitWebhook(LIVEKIT_BODY, signLiveKit(LIVEKIT_BODY))
+    assert.equal(event.event, 'room_started')
+    assert.equal(event.room?.name, 'room-1')
+  })
+
+  test('rejects a tampered body', async () => {
+    const tampered = LIVEKIT_BODY.replace('room-1', 'room-2')
+    await assert.rejects(verifyLiveKitWebhook(tampered, signLiveKit(LIVEKIT_BODY)), WebhookAuthError)
+  })
+
+  test('rejects an expired token', async () => {
+    await assert.rejects(
+      verifyLiveKitWebhook(LIVEKIT_BODY, signLiveKit(LIVEKIT_BODY, { expiresIn: -600 })),
+      WebhookAuthError
+    )
+  })
+
+  test('rejects a token signed with another secret', async () => {
+    const header = signLiveKit(LIVEKIT_BODY, { secret: 'another-secret-that-is-long-enough-too' })
+    await assert.rejects(verifyLiveKitWebhook(LIVEKIT_BODY, header), WebhookAuthError)
+  })
+
+  test('rejects a missing Authorization header', async () => {
+    await assert.rejects(verifyLiveKitWebhook(LIVEKIT_BODY, undefined), WebhookAuthError)
+  })
+
+  test('middleware passes valid requests and answers 401 otherwise', async () => {
+    const valid = fakeRequest(LIVEKIT_BODY, { authorization: signLiveKit(LIVEKIT_BODY) })
+    assert.equal(await runMiddleware(requireLiveKitSignature, valid), 'next')
+
+    const tampered = fakeRequest(LIVEKIT_BODY + ' ', { authorization: signLiveKit(LIVEKIT_BODY) })
+    assert.equal(await runMiddleware(requireLiveKitSignature, tampered), 401)
+
+    const unsigned = fakeRequest(LIVEKIT_BODY, {})
+    assert.equal(await runMiddleware(requireLiveKitSignature, unsigned), 401)
+  })
+})
+
+describe('MeetingBurner webhooks', () => {
+  test('accepts a valid signature', () => {
+    const headers = signMeetingBurner(MB_BODY)
+    assert.doesNotThrow(() => verifyMeetingBurnerWebhook(
+      MB_BODY,
+      headers[MEETINGBURNER_SIGNATURE_HEADER],
+      headers[MEETINGBURNER_TIMESTAMP_HEADER]
+    ))
+  })
+
+  test('rejects a tampered body', () => {
+    const headers = signMeetingBurner(MB_BODY)
+    assert.throws(() => verifyMeetingBurnerWebhook(
+      MB_BODY.replace('room-1', 'room-2'),
+      headers[MEETINGBURNER_SIGNATURE_HEADER],
+      headers[MEETINGBURNER_TIMESTAMP_HEADER]
+    ), WebhookAuthError)
+  })
+
+  test('rejects a stale timestamp', () => {
+    const headers = signMeetingBurner(MB_BODY, Math.floor(Date.now() / 1000) - 3600)
+    assert.throws(() => verifyMeetingBurnerWebhook(
+      MB_BODY,
+      headers[MEETINGBURNER_SIGNATURE_HEADER],
+      headers[MEETINGBURNER_TIMESTAMP_HEADER]
+    ), /tolerance/)
+  })
+
+  test('rejects missing headers', () => {
+    const headers = signMeetingBurner(MB_BODY)
+    assert.throws(() => verifyMeetingBurnerWebhook(MB_BODY, undefined, headers[MEETINGBURNER_TIMESTAMP_HEADER]), WebhookAuthError)
+    assert.throws(() => verifyMeetingBurnerWebhook(MB_BODY, headers[MEETINGBURNER_SIGNATURE_HEADER], undefined), WebhookAuthError)
+  })
+
+  test('middleware passes valid requests and answers 401 otherwise', async () => {
+    const valid = fakeRequest(MB_BODY, signMeetingBurner(MB_BODY))
+    assert.equal(await runMiddleware(requireMeetingBurnerSignature, valid), 'next')
+
+    const stale = fakeRequest(MB_BODY, signMeetingBurner(MB_BODY, Math.floor(Date.now() / 1000) - 3600))
+    assert.equal(await runMiddleware(requireMeetingBurnerSignature, stale), 401)
+
+    const unsigned = fakeRequest(MB_BODY, {})
+    assert.equal(await runMiddleware(requireMeetingBurnerSignature, unsigned), 401)
+  })
+})